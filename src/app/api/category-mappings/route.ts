@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { ASSIGNMENT_CATEGORY_IDS } from "@/lib/schedule";
+import { listCategoryMappings, saveCategoryMapping } from "@/lib/category-store";
+
+const categoryMappingSchema = z.object({
+  companyName: z.string().min(1),
+  mapping: z.record(z.string(), z.enum(ASSIGNMENT_CATEGORY_IDS)),
+});
+
+export async function GET() {
+  return NextResponse.json({ mappings: await listCategoryMappings() });
+}
+
+// Replaces the company's whole mapping.
+export async function PUT(request: Request) {
+  const parsed = categoryMappingSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid category mapping", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { companyName, mapping } = parsed.data;
+  return NextResponse.json({ companyName, mapping: await saveCategoryMapping(companyName, mapping) });
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { deleteFilterPreset, updateFilterPreset } from "@/lib/filter-preset-store";
+import { filterPresetSchema } from "@/lib/filter-preset-schema";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const parsed = filterPresetSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid filter preset", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const preset = await updateFilterPreset(id, parsed.data);
+  if (!preset) {
+    return NextResponse.json({ error: "Filter preset not found" }, { status: 404 });
+  }
+  return NextResponse.json({ preset });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!(await deleteFilterPreset(id))) {
+    return NextResponse.json({ error: "Filter preset not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
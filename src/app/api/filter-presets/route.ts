@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { createFilterPreset, listFilterPresets } from "@/lib/filter-preset-store";
+import { filterPresetSchema } from "@/lib/filter-preset-schema";
+
+export async function GET() {
+  return NextResponse.json({ presets: await listFilterPresets() });
+}
+
+export async function POST(request: Request) {
+  const parsed = filterPresetSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid filter preset", issues: parsed.error.issues }, { status: 400 });
+  }
+  return NextResponse.json({ preset: await createFilterPreset(parsed.data) }, { status: 201 });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { BUILT_IN_FILTER_SETS, extractUniqueWords, processExcelData } from "@/lib/schedule";
+import { resolveFilterSet } from "@/lib/filter-preset-store";
+import { getScheduleUpload } from "@/lib/schedule-store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/schedules/:id/counts?filterSet=default|all|<preset id or name>
+// A preset name resolves to the upload's station preset before a global one.
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const filterSet = new URL(request.url).searchParams.get("filterSet") ?? "default";
+
+  const upload = await getScheduleUpload(id);
+  if (!upload) {
+    return NextResponse.json({ error: "Schedule upload not found" }, { status: 404 });
+  }
+
+  const { layout } = upload.layoutDetection;
+  const uniqueWords = extractUniqueWords(upload.rawData, layout);
+
+  const resolved = await resolveFilterSet(filterSet, upload, uniqueWords);
+  if (!resolved) {
+    return NextResponse.json(
+      { error: `Unknown filterSet "${filterSet}"; expected a preset or one of ${BUILT_IN_FILTER_SETS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+  const { wordFilterState } = resolved;
+  const { counts } = processExcelData(upload.rawData, wordFilterState, layout);
+
+  return NextResponse.json({
+    id: upload.id,
+    companyName: upload.companyName,
+    stationName: upload.stationName,
+    filterSet,
+    excludedWords: uniqueWords.filter(word => wordFilterState[word] === false),
+    counts,
+  });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { deleteScheduleUpload, getScheduleUpload } from "@/lib/schedule-store";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const upload = await getScheduleUpload(id);
+  if (!upload) {
+    return NextResponse.json({ error: "Schedule upload not found" }, { status: 404 });
+  }
+  return NextResponse.json({ upload });
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  if (!(await deleteScheduleUpload(id))) {
+    return NextResponse.json({ error: "Schedule upload not found" }, { status: 404 });
+  }
+  return new NextResponse(null, { status: 204 });
+}
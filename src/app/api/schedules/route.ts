@@ -0,0 +1,88 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  builtInFilterState,
+  createScheduleFile,
+  extractUniqueWords,
+  hasScheduleData,
+  isScheduleFileName,
+  parseScheduleSheets,
+  processExcelData,
+  validateSchedule,
+} from "@/lib/schedule";
+import { layoutSchema } from "@/lib/schedule-schema";
+import { listScheduleUploads, saveScheduleUpload, type SaveScheduleInput } from "@/lib/schedule-store";
+
+const saveScheduleSchema = z.object({
+  fileName: z.string().min(1),
+  sheetName: z.string().nullish(),
+  rawData: z.array(z.array(z.union([z.string(), z.number(), z.boolean(), z.null()]))),
+  layoutDetection: z.object({
+    kind: z.enum(["standard", "shifted", "detected", "manual", "unrecognized"]),
+    label: z.string(),
+    layout: layoutSchema,
+    dateCount: z.number().int().min(0),
+  }),
+});
+
+export async function GET() {
+  return NextResponse.json({ uploads: await listScheduleUploads() });
+}
+
+// Multipart form: `file` is the schedule export, optional `sheet` picks a
+// worksheet by name (default: the first sheet, like the upload page).
+const readMultipart = async (request: Request): Promise<SaveScheduleInput | string> => {
+  const form = await request.formData();
+  const file = form.get("file");
+  if (!(file instanceof File)) return "Missing file field";
+  if (!isScheduleFileName(file.name)) return "Unsupported file type; expected .xlsx, .xls, .ods or .csv";
+
+  const sheets = await parseScheduleSheets(file);
+  const sheetName = form.get("sheet");
+  const sheet = typeof sheetName === "string" ? sheets.find(s => s.name === sheetName) : sheets[0];
+  if (!sheet) return `Sheet "${sheetName}" not found; the workbook has ${sheets.map(s => s.name).join(", ")}`;
+  if (!hasScheduleData(sheet)) return `Sheet "${sheet.name}" has no date header`;
+
+  const sheetLabel = sheets.length > 1 ? sheet.name : undefined;
+  const { fileName, rawData, layoutDetection } = createScheduleFile(file.name, sheet, sheetLabel);
+  return { fileName, sheetName: sheetLabel ?? null, rawData, layoutDetection };
+};
+
+export async function POST(request: Request) {
+  const isMultipart = request.headers.get("content-type")?.startsWith("multipart/form-data");
+
+  if (!isMultipart) {
+    const parsed = saveScheduleSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid schedule upload", issues: parsed.error.issues }, { status: 400 });
+    }
+    return NextResponse.json({ upload: await saveScheduleUpload(parsed.data) }, { status: 201 });
+  }
+
+  let input: SaveScheduleInput | string;
+  try {
+    input = await readMultipart(request);
+  } catch (error) {
+    console.error("Error parsing schedule upload:", error);
+    return NextResponse.json({ error: "The file is not a readable schedule" }, { status: 400 });
+  }
+  if (typeof input === "string") {
+    return NextResponse.json({ error: input }, { status: 400 });
+  }
+
+  const { layout } = input.layoutDetection;
+  const uniqueWords = extractUniqueWords(input.rawData, layout);
+  const { counts } = processExcelData(input.rawData, builtInFilterState("default", uniqueWords), layout);
+  const upload = await saveScheduleUpload(input);
+
+  return NextResponse.json(
+    {
+      upload,
+      layout: input.layoutDetection,
+      findings: validateSchedule(input.rawData, layout),
+      uniqueWords,
+      counts,
+    },
+    { status: 201 }
+  );
+}
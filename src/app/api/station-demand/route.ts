@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { listStationDemand, saveStationDemand } from "@/lib/demand-store";
+
+// Weekday keys (0 = Sunday) arrive as strings once the demand has been through JSON.
+const routeCounts = z.record(z.string(), z.number().int().min(0));
+
+const stationDemandSchema = z.object({
+  companyName: z.string().min(1),
+  stationName: z.string().min(1),
+  demand: z.object({ weekdayDefaults: routeCounts, dates: routeCounts }),
+});
+
+export async function GET() {
+  return NextResponse.json({ demand: await listStationDemand() });
+}
+
+// Replaces the station's whole demand.
+export async function PUT(request: Request) {
+  const parsed = stationDemandSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid route demand", issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { companyName, stationName, demand } = parsed.data;
+  return NextResponse.json({ companyName, stationName, demand: await saveStationDemand({ companyName, stationName }, demand) });
+}
@@ -1,138 +1,133 @@
 // app/page.js
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useMemo, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import * as XLSX from 'xlsx';
+import { addDays } from 'date-fns';
+import {
+  COMPLIANCE_RULE_LABELS,
+  DEFAULT_COMPLIANCE_LIMITS,
+  DEFAULT_FILTER_RULES,
+  DEFAULT_OVERTIME_SETTINGS,
+  SCHEDULE_FILE_ACCEPT,
+  alignCountsByDate,
+  buildCountsWorkbook,
+  buildRoster,
+  checkCompliance,
+  computeDemandGaps,
+  countByCategory,
+  countsWorkbookFileName,
+  createScheduleFile,
+  detectLayout,
+  durationResolver,
+  extractFileInfo,
+  extractUniqueWords,
+  filterConfigFileName,
+  formatWordLabel,
+  getDateColumns,
+  hasBlockingFindings,
+  hasDemand,
+  isScheduleFileName,
+  manualLayout,
+  mergeFilterConfig,
+  parseScheduleDate,
+  parseScheduleSheets,
+  presetsForStations,
+  previewFilterConfigImport,
+  processExcelData,
+  projectOvertime,
+  resolveFileFilterState,
+  rollupCounts,
+  sameFilterSettings,
+  scheduleFileFromUpload,
+  scheduleHours,
+  startEditHistory,
+  stationKey,
+  summarizeCompliance,
+  summarizeGapsByWeek,
+  toFilterConfigFile,
+  untimedLabels,
+  validateSchedule,
+  withDefaultFilterState,
+  withWordOverrides,
+  writeWorkbook,
+  type CategoryMapping,
+  type CategoryMappingsByCompany,
+  type ComplianceLimits,
+  type ComplianceRule,
+  type DemandByStation,
+  type EditHistory,
+  type FileFilterOverride,
+  type FileInfo,
+  type FilterConfig,
+  type FilterConfigFile,
+  type FilterConfigMergeOptions,
+  type FilterPreset,
+  type FilterRule,
+  type LayoutDetection,
+  type LayoutKind,
+  type OvertimeSettings,
+  type RollupPeriod,
+  type ScheduleFile,
+  type ScheduleMatrix,
+  type ScheduleSheet,
+  type ScheduleUploadSummary,
+  type StationDemand,
+  type WordFilterState,
+} from '@/lib/schedule';
+import { CategoryBreakdown, CategoryStrip } from '@/components/schedule/category-breakdown';
+import { CategoryMappingModal } from '@/components/schedule/category-mapping-modal';
+import { ComplianceLimitsModal } from '@/components/schedule/compliance-limits-modal';
+import { CheckboxItem } from '@/components/schedule/checkbox-item';
+import { ConsolidatedDashboard } from '@/components/schedule/consolidated-dashboard';
+import { CountRollups } from '@/components/schedule/count-rollups';
+import { CountTrendChart } from '@/components/schedule/count-trend-chart';
+import { DemandEditorModal } from '@/components/schedule/demand-editor-modal';
+import { DraftScheduleModal } from '@/components/schedule/draft-schedule-modal';
+import { FilterConfigImportModal } from '@/components/schedule/filter-config-import-modal';
+import { FilterRulesEditor } from '@/components/schedule/filter-rules-editor';
+import { FilterSourcePicker, type FilterSourceChoice } from '@/components/schedule/filter-source-picker';
+import { HoursTable } from '@/components/schedule/hours-table';
+import { LayoutOverrideModal } from '@/components/schedule/layout-override-modal';
+import { OvertimePanel } from '@/components/schedule/overtime-panel';
+import { OvertimeSettingsModal } from '@/components/schedule/overtime-settings-modal';
+import { PresetPicker } from '@/components/schedule/preset-picker';
+import { RosterTable } from '@/components/schedule/roster-table';
+import { ScheduleEditor } from '@/components/schedule/schedule-editor';
+import { SavePresetForm } from '@/components/schedule/save-preset-form';
+import { SavedUploadsPanel } from '@/components/schedule/saved-uploads-panel';
+import { SheetPickerModal, type PendingWorkbook } from '@/components/schedule/sheet-picker-modal';
+import { UploadDiffModal } from '@/components/schedule/upload-diff-modal';
+import { ValidationReport } from '@/components/schedule/validation-report';
+import { toast } from '@/hooks/use-toast';
+import { downloadBlob } from '@/lib/download';
+import { parseFilterConfigFile } from '@/lib/filter-config-schema';
+import type { ReportFilter } from '@/lib/filter-preset-schema';
+import {
+  createFilterPreset,
+  deleteFilterPreset,
+  deleteScheduleUpload,
+  fetchScheduleUpload,
+  listCategoryMappings,
+  listFilterPresets,
+  listScheduleUploads,
+  listStationDemand,
+  saveCategoryMapping,
+  saveScheduleFile,
+  saveStationDemand,
+  updateFilterPreset,
+  type FilterPresetInput,
+} from '@/lib/schedule-api';
 
 // ============================================
-// 1. UTILITY FUNCTIONS
+// 1. COMPONENTS
 // ============================================
 
-// Helper to determine if a word is "Bad" data (DSP, Numeric, Blank)
-const isDefaultExcluded = (word) => {
-  // 1. Check Blank
-  if (word === '__BLANK__') return true;
-  
-  // 2. Check Numeric
-  // We check if the original string is a number
-  if (!isNaN(Number(word)) && word.trim() !== '') return true;
-
-  // 3. Check DSP Initiated
-  if (word.toLowerCase().startsWith('dsp initiated work')) return true;
-
-  return false;
-};
-
-const parseExcelFile = (file) => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = new Uint8Array(e.target.result);
-        const workbook = XLSX.read(data, { type: 'array', cellDates: true });
-        const sheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[sheetName];
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: false });
-        resolve(jsonData);
-      } catch (error) {
-        reject(error);
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsArrayBuffer(file);
-  });
-};
-
-const extractFileInfo = (jsonData) => {
-  const companyName = jsonData[1]?.[1] || 'Unknown Company';
-  const stationName = jsonData[1]?.[2] || 'Unknown Station';
-  return { companyName, stationName };
-};
-
-// Extract ALL unique words (no filtering applied here)
-const extractUniqueWords = (jsonData) => {
-  const uniqueWords = new Set();
-  
-  if (jsonData.length < 4) return [];
-
-  for (let colIndex = 2; colIndex < jsonData[3]?.length; colIndex++) {
-    for (let rowIndex = 4; rowIndex < jsonData.length; rowIndex++) {
-      const cellValue = jsonData[rowIndex]?.[colIndex];
-      
-      let word = String(cellValue || '').trim();
-      
-      // Handle Blanks as a specific key
-      if (word === '') {
-        word = '__BLANK__';
-      }
-      
-      uniqueWords.add(word);
-    }
-  }
-
-  return Array.from(uniqueWords).sort();
-};
-
-// Process data based strictly on the Word Filter State
-const processExcelData = (jsonData, wordFilterState) => {
-  if (jsonData.length < 4) return { counts: [] };
-  
-  const dateRow = jsonData[3] || [];
-  const counts = [];
-  
-  for (let colIndex = 2; colIndex < dateRow.length; colIndex++) {
-    const dateValue = dateRow[colIndex];
-    if (dateValue) {
-      let count = 0;
-      
-      for (let rowIndex = 4; rowIndex < jsonData.length; rowIndex++) {
-        const cellValue = jsonData[rowIndex]?.[colIndex];
-        let word = String(cellValue || '').trim();
-        if (word === '') word = '__BLANK__';
-
-        // Logic: If word is in filter state, use that value. 
-        // If not in filter state (shouldn't happen often), default to true (include).
-        const isAllowed = wordFilterState[word] !== false;
-        
-        if (isAllowed) {
-          count++;
-        }
-      }
-      
-      counts.push({
-        date: formatDate(dateValue),
-        rawDate: dateValue,
-        column: colIndex,
-        count
-      });
-    }
-  }
-  
-  return { counts };
-};
-
-const formatDate = (dateValue) => {
-  if (!dateValue) return 'N/A';
-  if (dateValue instanceof Date && !isNaN(dateValue)) {
-    return dateValue.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
-  }
-  const parsed = new Date(dateValue);
-  if (!isNaN(parsed.getTime())) {
-    return parsed.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
-  }
-  return String(dateValue);
-};
-
-// Helper to format word for display
-const formatWordLabel = (word) => {
-  if (word === '__BLANK__') return '[Blank Cell]';
-  return word;
-};
-
-// ============================================
-// 2. COMPONENTS
-// ============================================
+const PrintIcon = () => (
+  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" />
+  </svg>
+);
 
 const AnimatedBackground = () => (
   <div className="fixed inset-0 overflow-hidden pointer-events-none">
@@ -152,61 +147,51 @@ const AnimatedBackground = () => (
   </div>
 );
 
-const CheckboxItem = ({ label, checked, onChange }) => (
-  <div 
-    onClick={onChange}
-    className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all select-none ${
-      checked 
-        ? 'bg-emerald-500/10 border-emerald-500/30 hover:border-emerald-400' 
-        : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'
-    }`}
-  >
-    <div className={`mt-0.5 w-5 h-5 rounded flex items-center justify-center border transition-colors ${
-      checked ? 'bg-emerald-500 border-emerald-500' : 'border-slate-500 bg-slate-900'
-    }`}>
-      {checked && (
-        <motion.svg 
-          initial={{ scale: 0 }} 
-          animate={{ scale: 1 }} 
-          className="w-3 h-3 text-white" 
-          fill="none" stroke="currentColor" viewBox="0 0 24 24"
-        >
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
-        </motion.svg>
-      )}
-    </div>
-    <div className="flex-1">
-      <div className={`text-sm font-medium ${checked ? 'text-white' : 'text-slate-400'}`}>
-        {label}
-      </div>
-    </div>
-  </div>
-);
+interface FilterConfigModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Set when editing one file's filters rather than the global ones
+  fileName?: string;
+  sourcePicker?: React.ReactNode;
+  // Shown instead of the editor while the file follows the global filters or a preset
+  inheritedNote?: string | null;
+  onExport?: () => void;
+  onImport?: (file: File) => void;
+  wordFilterState: WordFilterState;
+  onSetWords: (words: string[], included: boolean) => void;
+  rules: FilterRule[];
+  setRules: (rules: FilterRule[]) => void;
+  uniqueWords: string[];
+  stations: FileInfo[];
+  activePreset: FilterPreset | null;
+  onSavePreset: (name: string, scope: FileInfo | null, presetId: string | null) => void;
+}
 
 const FilterConfigModal = ({ 
   isOpen, 
   onClose, 
+  fileName,
+  sourcePicker,
+  inheritedNote,
+  onExport,
+  onImport,
   wordFilterState, 
-  setWordFilterState,
-  uniqueWords 
-}) => {
+  onSetWords,
+  rules,
+  setRules,
+  uniqueWords,
+  stations,
+  activePreset,
+  onSavePreset
+}: FilterConfigModalProps) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [tab, setTab] = useState<'words' | 'rules'>('words');
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-  const toggleWord = (word) => {
-    setWordFilterState(prev => ({
-      ...prev,
-      [word]: prev[word] === undefined ? false : !prev[word]
-    }));
-  };
+  const toggleWord = (word: string) => onSetWords([word], wordFilterState[word] === false);
 
-  const setAllVisible = (status) => {
-    const newWordState = { ...wordFilterState };
-    uniqueWords.forEach(word => {
-      if (searchTerm === '' || word.includes(searchTerm.toLowerCase())) {
-        newWordState[word] = status;
-      }
-    });
-    setWordFilterState(newWordState);
+  const setAllVisible = (status: boolean) => {
+    onSetWords(uniqueWords.filter(word => searchTerm === '' || word.includes(searchTerm.toLowerCase())), status);
   };
 
   const filteredWords = uniqueWords.filter(word => word.includes(searchTerm.toLowerCase()));
@@ -231,8 +216,12 @@ const FilterConfigModal = ({
         <div className="p-6 border-b border-slate-700 bg-slate-800/50">
           <div className="flex justify-between items-center">
             <div>
-              <h2 className="text-xl font-bold text-white">Filter Configuration</h2>
-              <p className="text-sm text-slate-400 mt-1">Uncheck items to exclude them from the count.</p>
+              <h2 className="text-xl font-bold text-white">{fileName ? `Filters — ${fileName}` : 'Filter Configuration'}</h2>
+              <p className="text-sm text-slate-400 mt-1">
+                {fileName
+                  ? 'Give this file its own filters or a preset instead of the global ones.'
+                  : 'Uncheck items or add rules to exclude them from the count.'}
+              </p>
             </div>
             <button onClick={onClose} className="text-slate-400 hover:text-white p-2 hover:bg-slate-700 rounded-full">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -243,59 +232,121 @@ const FilterConfigModal = ({
         </div>
 
         <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          {sourcePicker}
+
+          {inheritedNote ? (
+            <p className="text-sm text-slate-400 bg-slate-800/30 border border-slate-700 rounded-lg p-4">{inheritedNote}</p>
+          ) : (
+            <>
+              <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1 w-fit">
+                {(['words', 'rules'] as const).map(key => (
+                  <button
+                    key={key}
+                    onClick={() => setTab(key)}
+                    className={`px-3 py-1 text-xs rounded-md transition-colors ${
+                      tab === key ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'
+                    }`}
+                  >
+                    {key === 'words' ? 'Words' : `Rules (${rules.length})`}
+                  </button>
+                ))}
+              </div>
+
+              {tab === 'words' ? (
+                <>
+                  <div className="flex justify-between items-center gap-4">
+                     <input
+                      type="text"
+                      placeholder="Search words..."
+                      value={searchTerm}
+                      onChange={(e) => setSearchTerm(e.target.value)}
+                      className="flex-1 bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 text-sm"
+                    />
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button 
+                        onClick={() => setAllVisible(true)}
+                        className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors whitespace-nowrap"
+                      >
+                        Check All
+                      </button>
+                      <button 
+                        onClick={() => setAllVisible(false)}
+                        className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors whitespace-nowrap"
+                      >
+                        Uncheck All
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="bg-slate-800/30 border border-slate-700 rounded-lg p-2 space-y-1 max-h-96 overflow-y-auto">
+                    {filteredWords.length === 0 && uniqueWords.length > 0 ? (
+                      <p className="text-slate-500 text-sm text-center py-4">No words match search.</p>
+                    ) : uniqueWords.length === 0 ? (
+                      <p className="text-slate-500 text-sm text-center py-4">Upload a file to see words.</p>
+                    ) : (
+                      filteredWords.map(word => {
+                        // The state is already resolved through the rules, so we just read it.
+                        const isActive = wordFilterState[word] !== false; 
+                        return (
+                          <CheckboxItem
+                            key={word}
+                            label={formatWordLabel(word)}
+                            checked={isActive}
+                            onChange={() => toggleWord(word)}
+                          />
+                        );
+                      })
+                    )}
+                  </div>
           
-          <div className="flex justify-between items-center gap-4">
-             <input
-              type="text"
-              placeholder="Search words..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="flex-1 bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 text-sm"
-            />
-            <div className="flex gap-2 flex-shrink-0">
-              <button 
-                onClick={() => setAllVisible(true)}
-                className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors whitespace-nowrap"
-              >
-                Check All
-              </button>
-              <button 
-                onClick={() => setAllVisible(false)}
-                className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors whitespace-nowrap"
+                  <p className="text-xs text-slate-500 italic">
+                    Note: Checked state comes from the rules until you toggle a word yourself. By default "DSP Initiated Work", Numbers, and Blanks are unchecked.
+                  </p>
+                </>
+              ) : (
+                <FilterRulesEditor rules={rules} onChange={setRules} uniqueWords={uniqueWords} />
+              )}
+
+              <div className="border-t border-slate-700 pt-4 space-y-2">
+                <h3 className="text-sm font-medium text-slate-300">Save as preset</h3>
+                <SavePresetForm key={activePreset?.id ?? 'new'} stations={stations} activePreset={activePreset} onSave={onSavePreset} />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-between gap-2">
+          <div className="flex gap-2">
+            {onExport && (
+              <button
+                onClick={onExport}
+                className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
               >
-                Uncheck All
+                Export
               </button>
-            </div>
-          </div>
-
-          <div className="bg-slate-800/30 border border-slate-700 rounded-lg p-2 space-y-1 max-h-96 overflow-y-auto">
-            {filteredWords.length === 0 && uniqueWords.length > 0 ? (
-              <p className="text-slate-500 text-sm text-center py-4">No words match search.</p>
-            ) : uniqueWords.length === 0 ? (
-              <p className="text-slate-500 text-sm text-center py-4">Upload a file to see words.</p>
-            ) : (
-              filteredWords.map(word => {
-                // Default to true (checked) if not in state, UNLESS it's a default excluded type
-                // But our initialization logic handles the default value, so we just read state.
-                const isActive = wordFilterState[word] !== false; 
-                return (
-                  <CheckboxItem
-                    key={word}
-                    label={formatWordLabel(word)}
-                    checked={isActive}
-                    onChange={() => toggleWord(word)}
-                  />
-                );
-              })
+            )}
+            {onImport && (
+              <>
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+                >
+                  Import
+                </button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={e => {
+                    const file = e.target.files?.[0];
+                    if (file) onImport(file);
+                    e.target.value = '';
+                  }}
+                />
+              </>
             )}
           </div>
-          
-          <p className="text-xs text-slate-500 italic">
-            Note: Items like "DSP Initiated Work", Numbers, and Blanks are unchecked by default.
-          </p>
-        </div>
-
-        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-end">
           <motion.button
             onClick={onClose}
             className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg"
@@ -310,13 +361,19 @@ const FilterConfigModal = ({
   );
 };
 
-const UploadZone = ({ onFilesSelected, isDragging, setIsDragging }) => {
-  const fileInputRef = useRef(null);
+interface UploadZoneProps {
+  onFilesSelected: (files: File[]) => void;
+  isDragging: boolean;
+  setIsDragging: (isDragging: boolean) => void;
+}
+
+const UploadZone = ({ onFilesSelected, isDragging, setIsDragging }: UploadZoneProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleDrop = useCallback((e) => {
+  const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
-    const files = Array.from(e.dataTransfer.files).filter(f => f.name.match(/\.(xlsx|xls)$/));
+    const files = Array.from(e.dataTransfer.files).filter(f => isScheduleFileName(f.name));
     if (files.length > 0) onFilesSelected(files);
   }, [onFilesSelected, setIsDragging]);
 
@@ -329,7 +386,7 @@ const UploadZone = ({ onFilesSelected, isDragging, setIsDragging }) => {
       onDragLeave={() => setIsDragging(false)}
       onDrop={handleDrop}
     >
-      <input type="file" ref={fileInputRef} onChange={(e) => onFilesSelected(Array.from(e.target.files))} multiple accept=".xlsx,.xls" className="hidden" />
+      <input type="file" ref={fileInputRef} onChange={(e) => onFilesSelected(Array.from(e.target.files ?? []))} multiple accept={SCHEDULE_FILE_ACCEPT} className="hidden" />
       
       <motion.div className="mx-auto w-20 h-20 mb-6 rounded-2xl bg-gradient-to-br from-emerald-500/20 to-cyan-500/20 flex items-center justify-center">
         <svg className="w-10 h-10 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -337,8 +394,8 @@ const UploadZone = ({ onFilesSelected, isDragging, setIsDragging }) => {
         </svg>
       </motion.div>
 
-      <h3 className="text-xl font-semibold text-white mb-2">Drag and drop Excel files</h3>
-      <p className="text-slate-400 mb-6">or click to browse</p>
+      <h3 className="text-xl font-semibold text-white mb-2">Drag and drop schedule files</h3>
+      <p className="text-slate-400 mb-6">Excel, OpenDocument or CSV — or click to browse</p>
       <motion.button
         onClick={() => fileInputRef.current?.click()}
         className="px-6 py-3 rounded-xl bg-gradient-to-r from-emerald-600 to-cyan-600 text-white font-medium shadow-lg"
@@ -351,150 +408,842 @@ const UploadZone = ({ onFilesSelected, isDragging, setIsDragging }) => {
   );
 };
 
-const FileCard = ({ fileData, onRemove, onOpenSettings }) => (
-  <motion.div
-    className="bg-slate-800/60 rounded-2xl border border-slate-700/50 overflow-hidden"
-    initial={{ opacity: 0, y: 20 }}
-    animate={{ opacity: 1, y: 0 }}
-    layout
-  >
-    <div className="p-5 flex justify-between items-center">
-      <div className="flex items-center gap-4">
-        <div className="w-12 h-12 rounded-xl bg-emerald-500/20 flex items-center justify-center text-emerald-400">
-          <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-          </svg>
-        </div>
-        <div>
-          <h3 className="text-lg font-semibold text-white">{fileData.fileName}</h3>
-          <div className="flex gap-2 text-sm mt-1">
-            <span className="text-emerald-400">{fileData.companyName}</span>
-            <span className="text-slate-500">•</span>
-            <span className="text-cyan-400">{fileData.stationName}</span>
+type FileCardView = 'daily' | RollupPeriod | 'chart' | 'categories' | 'roster' | 'hours' | 'edit';
+
+const VIEW_TITLES: Record<FileCardView, string> = {
+  daily: 'Date-wise Valid Count',
+  weekly: 'Weekly Valid Count',
+  monthly: 'Monthly Valid Count',
+  chart: 'Valid Count Trend',
+  categories: 'Assignments by Category',
+  roster: 'Driver Roster',
+  hours: 'Scheduled Hours',
+  edit: 'Edit Schedule',
+};
+
+interface FileCardProps {
+  fileData: ScheduleFile;
+  wordFilterState: WordFilterState;
+  // Label of the file's own filter, or null when it uses the global filters
+  filterSource: string | null;
+  // Printable report of the saved upload; null until the file has been saved
+  reportHref: string | null;
+  demand: StationDemand | undefined;
+  categoryMapping: CategoryMapping | undefined;
+  complianceLimits: ComplianceLimits;
+  overtimeSettings: OvertimeSettings;
+  onRemove: () => void;
+  onOpenSettings: () => void;
+  onOpenLayout: () => void;
+  onOpenDemand: () => void;
+  onOpenCategories: () => void;
+  onOpenCompliance: () => void;
+  onOpenOvertime: () => void;
+  onOpenDraft: () => void;
+  onEdit: (rawData: ScheduleMatrix) => void;
+  // Resolves to whether the edited grid was saved
+  onSaveVersion: () => Promise<boolean>;
+}
+
+// Layouts we had to guess at are flagged so the user checks them
+const layoutBadgeClass = (kind: LayoutKind) =>
+  kind === 'detected' || kind === 'unrecognized'
+    ? 'border-amber-500/40 text-amber-400 hover:bg-amber-500/10'
+    : 'border-slate-600 text-slate-400 hover:bg-slate-700';
+
+// Short days in red, over-staffed days in cyan, exact match in the usual emerald
+const gapTileClass = (gap: number | null) => {
+  if (gap === null || gap === 0) return { tile: 'border-slate-700/50', count: 'text-emerald-400' };
+  if (gap < 0) return { tile: 'border-red-500/40 bg-red-500/5', count: 'text-red-400' };
+  return { tile: 'border-cyan-500/40 bg-cyan-500/5', count: 'text-cyan-400' };
+};
+
+const formatGap = (gap: number) => (gap > 0 ? `+${gap}` : String(gap));
+
+const FileCard = ({
+  fileData,
+  wordFilterState,
+  filterSource,
+  reportHref,
+  demand,
+  categoryMapping,
+  complianceLimits,
+  overtimeSettings,
+  onRemove,
+  onOpenSettings,
+  onOpenLayout,
+  onOpenDemand,
+  onOpenCategories,
+  onOpenCompliance,
+  onOpenOvertime,
+  onOpenDraft,
+  onEdit,
+  onSaveVersion,
+}: FileCardProps) => {
+  const findings = useMemo(
+    () => validateSchedule(fileData.rawData, fileData.layoutDetection.layout),
+    [fileData.rawData, fileData.layoutDetection]
+  );
+  const [reviewed, setReviewed] = useState(false);
+  const [view, setView] = useState<FileCardView>('daily');
+  // Kept here rather than in the editor so undo survives switching views
+  const [editHistory, setEditHistory] = useState(() => startEditHistory(fileData.rawData));
+  const [savedData, setSavedData] = useState(fileData.rawData);
+  const [savingVersion, setSavingVersion] = useState(false);
+
+  const { layout } = fileData.layoutDetection;
+  // Built for every view, since the compliance badge in the header needs it
+  const roster = useMemo(
+    () => buildRoster(fileData.rawData, wordFilterState, layout),
+    [fileData.rawData, wordFilterState, layout]
+  );
+  const compliance = useMemo(() => checkCompliance(roster, complianceLimits), [roster, complianceLimits]);
+  const hours = useMemo(
+    () => scheduleHours(fileData.rawData, wordFilterState, layout, durationResolver(overtimeSettings)),
+    [fileData.rawData, wordFilterState, layout, overtimeSettings]
+  );
+  const overtime = useMemo(() => projectOvertime(hours, overtimeSettings), [hours, overtimeSettings]);
+  const complianceSummary = summarizeCompliance(compliance);
+  const categoryCounts = useMemo(
+    () => countByCategory(fileData.rawData, categoryMapping ?? {}, layout),
+    [fileData.rawData, categoryMapping, layout]
+  );
+  const gaps = useMemo(() => computeDemandGaps(fileData.counts, demand), [fileData.counts, demand]);
+  const weekGaps = useMemo(() => summarizeGapsByWeek(gaps), [gaps]);
+  const rollups = useMemo(
+    () => (view === 'weekly' || view === 'monthly' ? rollupCounts(fileData.counts, view) : []),
+    [view, fileData.counts]
+  );
+
+  // Counts from a file with errors are held back until someone has looked at the findings
+  const untrusted = hasBlockingFindings(findings) && !reviewed;
+  // Edits only reach the saved upload, and so the report, once saved as a new version
+  const unsavedEdits = fileData.rawData !== savedData;
+
+  const handleEditHistory = (next: EditHistory) => {
+    setEditHistory(next);
+    if (next.present !== editHistory.present) onEdit(next.present);
+  };
+
+  const handleSaveVersion = async () => {
+    const saving = editHistory.present;
+    setSavingVersion(true);
+    if (await onSaveVersion()) setSavedData(saving);
+    setSavingVersion(false);
+  };
+
+  return (
+    <motion.div
+      className="bg-slate-800/60 rounded-2xl border border-slate-700/50 overflow-hidden"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      layout
+    >
+      <div className="p-5 flex justify-between items-center">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 rounded-xl bg-emerald-500/20 flex items-center justify-center text-emerald-400">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+            </svg>
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-white">
+              {fileData.fileName}
+              {fileData.sheetName && <span className="text-slate-400 font-normal"> › {fileData.sheetName}</span>}
+            </h3>
+            <div className="flex gap-2 text-sm mt-1">
+              <span className="text-emerald-400">{fileData.companyName}</span>
+              <span className="text-slate-500">•</span>
+              <span className="text-cyan-400">{fileData.stationName}</span>
+              <button
+                onClick={onOpenLayout}
+                className={`ml-2 px-2 py-0.5 rounded border text-xs transition-colors ${layoutBadgeClass(fileData.layoutDetection.kind)}`}
+                title="Adjust sheet layout"
+              >
+                {fileData.layoutDetection.label}
+              </button>
+              {filterSource && (
+                <button
+                  onClick={onOpenSettings}
+                  className="px-2 py-0.5 rounded border border-violet-500/40 text-violet-300 hover:bg-violet-500/10 text-xs transition-colors"
+                  title="This file is not counted with the global filters"
+                >
+                  {filterSource}
+                </button>
+              )}
+              <button
+                onClick={() => setView('roster')}
+                className={`px-2 py-0.5 rounded border text-xs transition-colors ${
+                  complianceSummary.drivers > 0
+                    ? 'border-red-500/40 text-red-400 hover:bg-red-500/10'
+                    : 'border-slate-600 text-slate-400 hover:bg-slate-700'
+                }`}
+                title={(Object.keys(COMPLIANCE_RULE_LABELS) as ComplianceRule[])
+                  .map(rule => `${COMPLIANCE_RULE_LABELS[rule]}: ${complianceSummary.byRule[rule]}`)
+                  .join('\n')}
+              >
+                {complianceSummary.drivers > 0
+                  ? `${complianceSummary.drivers} driver${complianceSummary.drivers === 1 ? '' : 's'} over limits`
+                  : 'Within limits'}
+              </button>
+              {overtime.risks.length > 0 && (
+                <button
+                  onClick={() => setView('hours')}
+                  className={`px-2 py-0.5 rounded border text-xs transition-colors ${
+                    overtime.overtimeHours > 0
+                      ? 'border-red-500/40 text-red-400 hover:bg-red-500/10'
+                      : 'border-amber-500/40 text-amber-400 hover:bg-amber-500/10'
+                  }`}
+                  title={`${overtime.driversOver} over, ${overtime.driversNear} near ${overtimeSettings.weeklyThreshold} h`}
+                >
+                  {overtime.overtimeHours > 0 ? `${overtime.overtimeHours} h overtime` : `${overtime.driversNear} near overtime`}
+                </button>
+              )}
+            </div>
           </div>
         </div>
-      </div>
 
-      <div className="flex gap-2">
-        <motion.button
-          onClick={onOpenSettings}
-          className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
-          whileHover={{ rotate: 90 }}
-          title="Configure Filters"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
-          </svg>
-        </motion.button>
-        <motion.button
-          onClick={onRemove}
-          className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
-        >
-          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
-          </svg>
-        </motion.button>
+        <div className="flex gap-2">
+          {reportHref && unsavedEdits && (
+            <span
+              className="p-2 rounded-lg text-slate-600 cursor-not-allowed"
+              title="The report reads the saved schedule: save the edits as a new version first"
+            >
+              <PrintIcon />
+            </span>
+          )}
+          {reportHref && !unsavedEdits && (
+            <a
+              href={reportHref}
+              target="_blank"
+              rel="noreferrer"
+              className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+              title="Printable report, counted with the same filters and layout as this card"
+            >
+              <PrintIcon />
+            </a>
+          )}
+          <motion.button
+            onClick={onOpenDemand}
+            className={`p-2 rounded-lg hover:text-white hover:bg-slate-700 transition-colors ${hasDemand(demand) ? 'text-cyan-400' : 'text-slate-400'}`}
+            title="Route Demand"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <circle cx="12" cy="12" r="9" strokeWidth={2} />
+              <circle cx="12" cy="12" r="5" strokeWidth={2} />
+              <circle cx="12" cy="12" r="1" strokeWidth={2} />
+            </svg>
+          </motion.button>
+          <motion.button
+            onClick={onOpenDraft}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Draft Next Schedule"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2zm7-7v4m-2-2h4" />
+            </svg>
+          </motion.button>
+          <motion.button
+            onClick={onOpenCategories}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            title="Assignment Categories"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5a1.99 1.99 0 011.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+            </svg>
+          </motion.button>
+          <motion.button
+            onClick={onOpenSettings}
+            className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-700 transition-colors"
+            whileHover={{ rotate: 90 }}
+            title="Configure Filters"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </motion.button>
+          <motion.button
+            onClick={onRemove}
+            className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+            </svg>
+          </motion.button>
+        </div>
       </div>
-    </div>
 
-    <div className="border-t border-slate-700/50 p-5">
-      <h4 className="text-sm font-medium text-slate-400 mb-3">Date-wise Valid Count</h4>
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-        {fileData.counts.map((item, idx) => (
-          <motion.div
-            key={idx}
-            className="bg-slate-900/50 rounded-lg p-3 border border-slate-700/50"
-            initial={{ opacity: 0, scale: 0.9 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ delay: idx * 0.03 }}
-          >
-            <div className="text-xs text-slate-400 mb-1">{item.date}</div>
-            <div className="text-2xl font-bold text-emerald-400">{item.count}</div>
-          </motion.div>
-        ))}
+      {findings.length > 0 && (
+        <ValidationReport findings={findings} reviewed={reviewed} onReviewed={() => setReviewed(true)} />
+      )}
+
+      <div className="border-t border-slate-700/50 p-5">
+        <div className="flex justify-between items-center mb-3 gap-4">
+          <h4 className="text-sm font-medium text-slate-400">
+            {VIEW_TITLES[view]}
+            {view === 'roster' && ` (${roster.length})`}
+            {untrusted && <span className="ml-2 text-red-400">— unverified, review the errors above</span>}
+          </h4>
+          <div className="flex gap-1 bg-slate-900/50 rounded-lg p-1">
+            {(Object.keys(VIEW_TITLES) as FileCardView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`text-xs px-3 py-1 rounded capitalize transition-colors ${
+                  view === option ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+        {view === 'edit' ? (
+          <ScheduleEditor
+            history={editHistory}
+            baseline={savedData}
+            drivers={roster}
+            dateColumns={getDateColumns(fileData.rawData, layout)}
+            saving={savingVersion}
+            onChange={handleEditHistory}
+            onSaveVersion={handleSaveVersion}
+          />
+        ) : view === 'hours' ? (
+          <div className={`space-y-3 transition-opacity ${untrusted ? 'opacity-40' : ''}`}>
+            <OvertimePanel projection={overtime} settings={overtimeSettings} onEditSettings={onOpenOvertime} />
+            <HoursTable hours={hours} overtimeThreshold={overtimeSettings.weeklyThreshold} />
+          </div>
+        ) : view === 'roster' ? (
+          <div className={`transition-opacity ${untrusted ? 'opacity-40' : ''}`}>
+            <div className="flex justify-between items-center mb-3 text-xs text-slate-400">
+              <span>
+                Limits: {complianceLimits.maxConsecutiveDays} days in a row · {complianceLimits.maxDaysPerWeek} days a week ·{' '}
+                {complianceLimits.minRestDays} rest days in any 7
+              </span>
+              <button onClick={onOpenCompliance} className="text-emerald-400 hover:text-emerald-300">
+                Edit limits
+              </button>
+            </div>
+            <RosterTable drivers={roster} dateColumns={getDateColumns(fileData.rawData, layout)} compliance={compliance} />
+          </div>
+        ) : view === 'categories' ? (
+          <CategoryBreakdown counts={categoryCounts} />
+        ) : view === 'chart' ? (
+          <div className={`transition-opacity ${untrusted ? 'opacity-40' : ''}`}>
+            <CountTrendChart axis={alignCountsByDate([fileData])} series={[{ id: fileData.id, label: 'Valid count' }]} demand={demand} />
+          </div>
+        ) : view === 'weekly' || view === 'monthly' ? (
+          <div className={`transition-opacity ${untrusted ? 'opacity-40' : ''}`}>
+            <CountRollups
+              rollups={rollups}
+              gapSummaries={view === 'weekly' && hasDemand(demand) ? weekGaps : []}
+            />
+          </div>
+        ) : (
+          <div className={`grid grid-cols-2 md:grid-cols-4 gap-3 transition-opacity ${untrusted ? 'opacity-40' : ''}`}>
+            {gaps.map((item, idx) => {
+              const tone = gapTileClass(item.gap);
+              return (
+                <motion.div
+                  key={idx}
+                  className={`bg-slate-900/50 rounded-lg p-3 border ${tone.tile}`}
+                  initial={{ opacity: 0, scale: 0.9 }}
+                  animate={{ opacity: 1, scale: 1 }}
+                  transition={{ delay: idx * 0.03 }}
+                >
+                  <div className="text-xs text-slate-400 mb-1">{item.date}</div>
+                  <div className={`text-2xl font-bold ${tone.count}`}>{item.count}</div>
+                  {item.gap !== null && (
+                    <div className="text-xs text-slate-500 mt-1">
+                      need {item.demand} · <span className={tone.count}>{formatGap(item.gap)}</span>
+                    </div>
+                  )}
+                  {categoryCounts[idx] && <CategoryStrip count={categoryCounts[idx]} />}
+                </motion.div>
+              );
+            })}
+          </div>
+        )}
+        {view === 'daily' && hasDemand(demand) && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {weekGaps.map(week => (
+              <div key={week.key} className="text-xs px-3 py-1.5 rounded-lg bg-slate-900/50 border border-slate-700/50 text-slate-400">
+                {week.label}: <span className="text-red-400">short {week.shortfall}</span>
+                {' · '}<span className="text-cyan-400">over {week.surplus}</span>
+                {' · '}net <span className={week.net < 0 ? 'text-red-400' : 'text-emerald-400'}>{formatGap(week.net)}</span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
-    </div>
-  </motion.div>
-);
+    </motion.div>
+  );
+};
 
 // ============================================
-// 3. MAIN PAGE
+// 2. MAIN PAGE
 // ============================================
 export default function Home() {
-  const [files, setFiles] = useState([]);
+  const [files, setFiles] = useState<ScheduleFile[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   
-  const [wordFilterState, setWordFilterState] = useState({});
-  const [uniqueWords, setUniqueWords] = useState([]);
+  // Per-word toggles the user made; every other word is decided by the rules
+  const [wordOverrides, setWordOverrides] = useState<WordFilterState>({});
+  const [filterRules, setFilterRules] = useState<FilterRule[]>(DEFAULT_FILTER_RULES);
+  const [uniqueWords, setUniqueWords] = useState<string[]>([]);
+  const [pendingWorkbooks, setPendingWorkbooks] = useState<PendingWorkbook[]>([]);
+  const [layoutFileId, setLayoutFileId] = useState<string | null>(null);
+  const [demandFileId, setDemandFileId] = useState<string | null>(null);
+  const [demandByStation, setDemandByStation] = useState<DemandByStation>({});
+  const [categoryCompany, setCategoryCompany] = useState<string | null>(null);
+  const [complianceLimits, setComplianceLimits] = useState<ComplianceLimits>(DEFAULT_COMPLIANCE_LIMITS);
+  const [isComplianceOpen, setIsComplianceOpen] = useState(false);
+  const [overtimeSettings, setOvertimeSettings] = useState<OvertimeSettings>(DEFAULT_OVERTIME_SETTINGS);
+  const [isOvertimeOpen, setIsOvertimeOpen] = useState(false);
+  const [draftFileId, setDraftFileId] = useState<string | null>(null);
+  const [categoryMappings, setCategoryMappings] = useState<CategoryMappingsByCompany>({});
+  const [savedUploads, setSavedUploads] = useState<ScheduleUploadSummary[]>([]);
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const [filterFileId, setFilterFileId] = useState<string | null>(null);
+  const [fileFilters, setFileFilters] = useState<Record<string, FileFilterOverride>>({});
+  const [pendingImport, setPendingImport] = useState<{ fileName: string; config: FilterConfigFile } | null>(null);
+  const [compareUploadId, setCompareUploadId] = useState<string | null>(null);
+
+  const refreshSavedUploads = useCallback(() => {
+    listScheduleUploads()
+      .then(setSavedUploads)
+      .catch(error => console.error('Error loading saved schedules:', error));
+  }, []);
 
-  const processAndAddFiles = useCallback(async (selectedFiles) => {
-    const newFiles = [];
+  const refreshPresets = useCallback(() => {
+    listFilterPresets()
+      .then(setPresets)
+      .catch(error => console.error('Error loading filter presets:', error));
+  }, []);
 
-    for (const file of selectedFiles) {
+  useEffect(() => {
+    refreshSavedUploads();
+    refreshPresets();
+    listCategoryMappings()
+      .then(setCategoryMappings)
+      .catch(error => console.error('Error loading category mappings:', error));
+    listStationDemand()
+      .then(setDemandByStation)
+      .catch(error => console.error('Error loading route demand:', error));
+  }, [refreshSavedUploads, refreshPresets]);
+
+  const registerWords = useCallback((newFiles: ScheduleFile[]) => {
+    // Update Unique Words List
+    setUniqueWords(prevWords => {
+      const allWords = new Set<string>(prevWords);
+      
+      newFiles.forEach(file => {
+        const fileWords = extractUniqueWords(file.rawData, file.layoutDetection.layout);
+        fileWords.forEach(w => allWords.add(w));
+      });
+
+      return Array.from(allWords).sort();
+    });
+  }, []);
+
+  const addScheduleFiles = useCallback((newFiles: ScheduleFile[]) => {
+    if (newFiles.length === 0) return;
+
+    setFiles(prev => [...prev, ...newFiles]);
+    registerWords(newFiles);
+    setIsModalOpen(true);
+  }, [registerWords]);
+
+  // Saves freshly ingested files so they can be reopened later
+  const persistFiles = useCallback(async (newFiles: ScheduleFile[]) => {
+    if (newFiles.length === 0) return;
+
+    for (const file of newFiles) {
       try {
-        const jsonData = await parseExcelFile(file);
-        const { companyName, stationName } = extractFileInfo(jsonData);
-        
-        newFiles.push({
-          id: `${file.name}-${Date.now()}`,
-          fileName: file.name,
-          companyName,
-          stationName,
-          rawData: jsonData,
-          counts: [] 
+        const upload = await saveScheduleFile(file);
+        setFiles(prev => prev.map(f => (f.id === file.id ? { ...f, uploadId: upload.id } : f)));
+      } catch (error) {
+        console.error('Error saving file:', error);
+        toast({
+          variant: 'destructive',
+          title: `Could not save ${file.fileName}`,
+          description: error instanceof Error ? error.message : 'The schedule is only kept until the page is reloaded.',
         });
+      }
+    }
+
+    refreshSavedUploads();
+  }, [refreshSavedUploads]);
+
+  const processAndAddFiles = useCallback(async (selectedFiles: File[]) => {
+    const newFiles: ScheduleFile[] = [];
+    const workbooks: PendingWorkbook[] = [];
+
+    for (const file of selectedFiles) {
+      try {
+        const sheets = await parseScheduleSheets(file);
+
+        // Single-sheet files go straight in; workbooks with several tabs wait for the sheet picker
+        if (sheets.length > 1) {
+          workbooks.push({ id: `${file.name}-${Date.now()}-${workbooks.length}`, fileName: file.name, sheets });
+        } else if (sheets.length === 1) {
+          newFiles.push(createScheduleFile(file.name, sheets[0]));
+        }
         
       } catch (error) {
         console.error('Error processing file:', error);
+        toast({
+          variant: 'destructive',
+          title: `Could not read ${file.name}`,
+          description: error instanceof Error ? error.message : 'The file is not a readable schedule.',
+        });
       }
     }
 
-    setFiles(prev => [...prev, ...newFiles]);
+    setPendingWorkbooks(prev => [...prev, ...workbooks]);
+    addScheduleFiles(newFiles);
+    persistFiles(newFiles);
+  }, [addScheduleFiles, persistFiles]);
 
-    // Update Unique Words List
-    setUniqueWords(prevWords => {
-      const allWords = new Set(prevWords);
-      
-      newFiles.forEach(file => {
-        if (file.rawData) {
-            const fileWords = extractUniqueWords(file.rawData);
-            fileWords.forEach(w => allWords.add(w));
-        }
-      });
+  const handleSheetsPicked = (sheets: ScheduleSheet[]) => {
+    const workbook = pendingWorkbooks[0];
+    setPendingWorkbooks(prev => prev.slice(1));
+    const newFiles = sheets.map(sheet => createScheduleFile(workbook.fileName, sheet, sheet.name));
+    addScheduleFiles(newFiles);
+    persistFiles(newFiles);
+  };
 
-      const sortedWords = Array.from(allWords).sort();
+  const handleOpenUpload = async (id: string) => {
+    try {
+      addScheduleFiles([scheduleFileFromUpload(await fetchScheduleUpload(id))]);
+    } catch (error) {
+      console.error('Error opening saved schedule:', error);
+      toast({ variant: 'destructive', title: 'Could not open saved schedule' });
+    }
+  };
 
-      // Initialize State: Default Excluded (false) for bad items, Included (true) for others
-      setWordFilterState(prevFilter => {
-        const newState = { ...prevFilter };
-        sortedWords.forEach(word => {
-          if (newState[word] === undefined) {
-            // Check if it's a "bad" type to set default unchecked
-            newState[word] = !isDefaultExcluded(word);
-          }
-        });
-        return newState;
-      });
+  const handleDeleteUpload = async (id: string) => {
+    try {
+      await deleteScheduleUpload(id);
+      setFiles(prev => prev.map(f => (f.uploadId === id ? { ...f, uploadId: undefined } : f)));
+      refreshSavedUploads();
+    } catch (error) {
+      console.error('Error deleting saved schedule:', error);
+      toast({ variant: 'destructive', title: 'Could not delete saved schedule' });
+    }
+  };
 
-      return sortedWords;
-    });
+  const wordFilterState = useMemo(
+    () => withDefaultFilterState(wordOverrides, uniqueWords, filterRules),
+    [wordOverrides, uniqueWords, filterRules]
+  );
 
-    setIsModalOpen(true);
-    
-  }, []);
+  const handleSetWords = (words: string[], included: boolean) =>
+    setWordOverrides(prev => withWordOverrides(prev, filterRules, words, included));
+
+  // Saved uploads aren't necessarily open, so the comparison resolves the global filters over their words
+  const compareFilterState = useCallback(
+    (words: string[]) => withDefaultFilterState(wordOverrides, words, filterRules),
+    [wordOverrides, filterRules]
+  );
+  const compareUpload = savedUploads.find(upload => upload.id === compareUploadId);
+  const compareUploads = compareUpload
+    ? savedUploads.filter(
+        upload => upload.companyName === compareUpload.companyName && upload.stationName === compareUpload.stationName
+      )
+    : [];
+
+  // Files with an override are resolved against their own words; the rest share the global state
+  const fileFilterStates = useMemo(() => Object.fromEntries(files.map(file => {
+    const override = fileFilters[file.id];
+    const words = override ? extractUniqueWords(file.rawData, file.layoutDetection.layout) : uniqueWords;
+    return [file.id, resolveFileFilterState(override, presets, words, wordFilterState)];
+  })), [files, fileFilters, presets, uniqueWords, wordFilterState]);
 
   // Recalculate counts whenever filters change
-  useEffect(() => {
-    setFiles(prevFiles => prevFiles.map(file => {
-      if (!file.rawData) return file;
-      const { counts } = processExcelData(file.rawData, wordFilterState);
-      return { ...file, counts };
+  const countedFiles = useMemo(() => files.map(file => {
+    const { counts } = processExcelData(file.rawData, fileFilterStates[file.id], file.layoutDetection.layout);
+    return { ...file, counts };
+  }), [files, fileFilterStates]);
+
+  const updateFileFilter = (id: string, override: FileFilterOverride | undefined) =>
+    setFileFilters(prev => {
+      const next = { ...prev };
+      if (override) next[id] = override;
+      else delete next[id];
+      return next;
+    });
+
+  const handleRemoveFile = (id: string) => {
+    setFiles(prev => prev.filter(f => f.id !== id));
+    updateFileFilter(id, undefined);
+  };
+
+  // Switching to custom starts from whatever the file was being counted with
+  const handleFilterSourceChange = (fileId: string, choice: FilterSourceChoice) => {
+    const current = fileFilters[fileId];
+    if (choice.kind === 'global') updateFileFilter(fileId, undefined);
+    else if (choice.kind === 'preset') updateFileFilter(fileId, choice);
+    else if (current?.kind !== 'custom') {
+      const preset = current && presets.find(p => p.id === current.presetId);
+      updateFileFilter(fileId, {
+        kind: 'custom',
+        rules: preset ? preset.rules : filterRules,
+        wordFilterState: preset ? preset.wordFilterState : wordOverrides,
+      });
+    }
+  };
+
+  const filterSourceLabel = (override: FileFilterOverride | undefined) => {
+    if (!override) return null;
+    if (override.kind === 'custom') return 'Custom filters';
+    const preset = presets.find(p => p.id === override.presetId);
+    return preset ? `Preset: ${preset.name}` : 'Preset deleted — using global filters';
+  };
+
+  const stations = useMemo(() => {
+    const byKey = new Map<string, FileInfo>();
+    files.forEach(({ companyName, stationName }) => byKey.set(`${companyName}/${stationName}`, { companyName, stationName }));
+    return Array.from(byKey.values());
+  }, [files]);
+  const visiblePresets = useMemo(() => presetsForStations(presets, stations), [presets, stations]);
+
+  // A preset replaces both the rules and the per-word overrides
+  const handleSelectPreset = (id: string | null) => {
+    setActivePresetId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) {
+      setFilterRules(preset.rules);
+      setWordOverrides(preset.wordFilterState);
+    }
+  };
+
+  const savePreset = async (input: FilterPresetInput, presetId: string | null): Promise<FilterPreset | null> => {
+    try {
+      const preset = presetId ? await updateFilterPreset(presetId, input) : await createFilterPreset(input);
+      refreshPresets();
+      toast({ title: `Preset "${preset.name}" saved` });
+      return preset;
+    } catch (error) {
+      console.error('Error saving filter preset:', error);
+      toast({ variant: 'destructive', title: 'Could not save preset' });
+      return null;
+    }
+  };
+
+  const handleSavePreset = async (name: string, scope: FileInfo | null, presetId: string | null) => {
+    const preset = await savePreset({ name, scope, rules: filterRules, wordFilterState: wordOverrides }, presetId);
+    if (preset) setActivePresetId(preset.id);
+  };
+
+  // A file's custom filters saved as a preset are replaced by a reference to it
+  const handleSaveFilePreset = async (fileId: string, name: string, scope: FileInfo | null) => {
+    const current = fileFilters[fileId];
+    if (current?.kind !== 'custom') return;
+    const preset = await savePreset({ name, scope, rules: current.rules, wordFilterState: current.wordFilterState }, null);
+    if (preset) updateFileFilter(fileId, { kind: 'preset', presetId: preset.id });
+  };
+
+  // The report is rendered on the server: saved presets and the default exclusions go
+  // by name, anything else (a file's custom filters, unsaved global edits) as JSON.
+  const reportFilterParams = (file: ScheduleFile): Record<string, string> => {
+    const override = fileFilters[file.id];
+    if (override?.kind === 'custom') {
+      const filter: ReportFilter = { label: 'Custom filters for this file', rules: override.rules, wordFilterState: override.wordFilterState };
+      return { filter: JSON.stringify(filter) };
+    }
+    // A file whose preset was deleted follows the global filters, as on the card
+    const filePreset = override && presets.find(p => p.id === override.presetId);
+    if (filePreset) return { filterSet: filePreset.id };
+
+    const global = { rules: filterRules, wordFilterState: wordOverrides };
+    const activePreset = presets.find(p => p.id === activePresetId);
+    if (activePreset && sameFilterSettings(activePreset, global)) return { filterSet: activePreset.id };
+    if (sameFilterSettings({ rules: DEFAULT_FILTER_RULES, wordFilterState: {} }, global)) return { filterSet: 'default' };
+    const filter: ReportFilter = {
+      label: activePreset ? `Preset: ${activePreset.name}, with unsaved changes` : 'Unsaved filters',
+      ...global,
+    };
+    return { filter: JSON.stringify(filter) };
+  };
+
+  const reportHref = (file: ScheduleFile) => {
+    if (!file.uploadId) return null;
+    // A manual layout override only lives on the page, so the card's layout always goes along
+    const query = new URLSearchParams({ ...reportFilterParams(file), layout: JSON.stringify(file.layoutDetection.layout) });
+    return `/report/${encodeURIComponent(file.uploadId)}?${query}`;
+  };
+
+  // Exports exactly what the cards show, including each file's own filter
+  const handleExportWorkbook = () => {
+    const exported = countedFiles.map(file => ({
+      file,
+      wordFilterState: fileFilterStates[file.id],
+      filterLabel: filterSourceLabel(fileFilters[file.id]) ?? 'Global filters',
     }));
-  }, [wordFilterState]);
+    downloadBlob(writeWorkbook(buildCountsWorkbook(exported, filterRules)), countsWorkbookFileName());
+  };
+
+  const currentFilterConfig: FilterConfig = { rules: filterRules, wordFilterState: wordOverrides, categories: categoryMappings };
 
-  const handleRemoveFile = (id) => setFiles(prev => prev.filter(f => f.id !== id));
+  const handleExportFilters = () => {
+    const config = toFilterConfigFile(currentFilterConfig);
+    downloadBlob(new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' }), filterConfigFileName());
+  };
+
+  const handleImportFilters = async (file: File) => {
+    try {
+      setPendingImport({ fileName: file.name, config: parseFilterConfigFile(await file.text()) });
+    } catch (error) {
+      console.error('Error reading filter configuration:', error);
+      toast({
+        variant: 'destructive',
+        title: `Could not import ${file.name}`,
+        description: error instanceof Error ? error.message : undefined,
+      });
+    }
+  };
+
+  // Category mappings live on the server, so every company the import touched is saved back
+  const handleApplyImport = async (options: FilterConfigMergeOptions) => {
+    if (!pendingImport) return;
+    const merged = mergeFilterConfig(currentFilterConfig, pendingImport.config, uniqueWords, options);
+    setFilterRules(merged.rules);
+    setWordOverrides(merged.wordFilterState);
+    setActivePresetId(null);
+    setPendingImport(null);
+    try {
+      await Promise.all(
+        Object.keys(pendingImport.config.categories).map(companyName =>
+          saveCategoryMapping(companyName, merged.categories[companyName])
+        )
+      );
+      setCategoryMappings(merged.categories);
+      toast({ title: `Imported filters from ${pendingImport.fileName}` });
+    } catch (error) {
+      console.error('Error saving imported categories:', error);
+      toast({ variant: 'destructive', title: 'Filters imported, but the categories could not be saved' });
+    }
+  };
+
+  const handleDeletePreset = async (id: string) => {
+    try {
+      await deleteFilterPreset(id);
+      setActivePresetId(null);
+      refreshPresets();
+    } catch (error) {
+      console.error('Error deleting filter preset:', error);
+      toast({ variant: 'destructive', title: 'Could not delete preset' });
+    }
+  };
+
+  const layoutFile = files.find(f => f.id === layoutFileId);
+  const demandFile = countedFiles.find(f => f.id === demandFileId);
+
+  // The draft starts the day after the source schedule and reuses its drivers and most common counted assignment
+  const draftSource = useMemo(() => {
+    const file = countedFiles.find(f => f.id === draftFileId);
+    if (!file) return null;
+    const roster = buildRoster(file.rawData, fileFilterStates[file.id], file.layoutDetection.layout);
+    const dates = file.counts.map(item => parseScheduleDate(item.rawDate)).filter((date): date is Date => date !== null);
+    const lastDate = dates.reduce<Date | null>((latest, date) => (!latest || date > latest ? date : latest), null);
+    const assignments: Record<string, number> = {};
+    roster.forEach(driver =>
+      driver.assignments.filter(a => a.counted).forEach(a => (assignments[a.word] = (assignments[a.word] ?? 0) + 1))
+    );
+    const [commonest] = Object.entries(assignments).sort(([, a], [, b]) => b - a);
+    return {
+      file,
+      roster,
+      defaultStart: lastDate ? addDays(lastDate, 1) : new Date(),
+      defaultAssignment: commonest?.[0] ?? 'Route',
+    };
+  }, [countedFiles, draftFileId, fileFilterStates]);
+
+  const handleOpenDraft = (fileName: string, rawData: ScheduleMatrix) => {
+    addScheduleFiles([createScheduleFile(fileName, { name: 'Draft', rawData }, 'Draft')]);
+    setDraftFileId(null);
+  };
+  const filterFile = files.find(f => f.id === filterFileId);
+  const filterFileOverride = filterFile ? fileFilters[filterFile.id] : undefined;
+  const filterFileCustom = filterFileOverride?.kind === 'custom' ? filterFileOverride : null;
+  const filterFileWords = useMemo(
+    () => (filterFile ? extractUniqueWords(filterFile.rawData, filterFile.layoutDetection.layout) : []),
+    [filterFile]
+  );
+  const categoryWords = useMemo(() => {
+    const words = new Set<string>();
+    files
+      .filter(file => file.companyName === categoryCompany)
+      .forEach(file => extractUniqueWords(file.rawData, file.layoutDetection.layout).forEach(word => words.add(word)));
+    return Array.from(words).sort();
+  }, [files, categoryCompany]);
+
+  const handleSaveCategories = async (companyName: string, mapping: CategoryMapping) => {
+    try {
+      const saved = await saveCategoryMapping(companyName, mapping);
+      setCategoryMappings(prev => ({ ...prev, [companyName]: saved }));
+      setCategoryCompany(null);
+    } catch (error) {
+      console.error('Error saving category mapping:', error);
+      toast({ variant: 'destructive', title: 'Could not save categories' });
+    }
+  };
+
+  const handleSaveDemand = async (station: ScheduleFile, demand: StationDemand) => {
+    try {
+      const saved = await saveStationDemand(station, demand);
+      setDemandByStation(prev => ({ ...prev, [stationKey(station)]: saved }));
+      setDemandFileId(null);
+    } catch (error) {
+      console.error('Error saving route demand:', error);
+      toast({ variant: 'destructive', title: 'Could not save route demand' });
+    }
+  };
+
+  // Edits are counted straight away; they are only stored once saved as a new version
+  const handleEditFile = (id: string, rawData: ScheduleMatrix) => {
+    const file = files.find(f => f.id === id);
+    if (!file) return;
+
+    setFiles(prev => prev.map(f => (f.id === id ? { ...f, rawData } : f)));
+    registerWords([{ ...file, rawData }]);
+  };
+
+  // Saved as a separate upload, so the version it was edited from stays available to compare against
+  const handleSaveVersion = async (id: string) => {
+    const file = files.find(f => f.id === id);
+    if (!file) return false;
+
+    try {
+      const upload = await saveScheduleFile(file);
+      setFiles(prev => prev.map(f => (f.id === id ? { ...f, uploadId: upload.id } : f)));
+      refreshSavedUploads();
+      toast({ title: `Saved a new version of ${file.fileName}` });
+      return true;
+    } catch (error) {
+      console.error('Error saving schedule version:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not save the edited schedule',
+        description: error instanceof Error ? error.message : undefined,
+      });
+      return false;
+    }
+  };
+
+  const handleLayoutChange = (id: string, layoutDetection: LayoutDetection) => {
+    const file = files.find(f => f.id === id);
+    if (!file) return;
+
+    const updated = { ...file, layoutDetection, ...extractFileInfo(file.rawData, layoutDetection.layout) };
+    setFiles(prev => prev.map(f => (f.id === id ? updated : f)));
+    registerWords([updated]);
+    setLayoutFileId(null);
+  };
 
   return (
     <div className="min-h-screen bg-slate-950 relative text-white">
@@ -516,32 +1265,74 @@ export default function Home() {
           />
         </div>
 
+        <SavedUploadsPanel
+          uploads={savedUploads}
+          openIds={files.map(f => f.uploadId).filter((id): id is string => !!id)}
+          onOpen={handleOpenUpload}
+          onCompare={setCompareUploadId}
+          onDelete={handleDeleteUpload}
+        />
+
         {files.length > 0 && (
           <motion.div 
-            className="flex justify-end mb-4"
+            className="flex justify-between items-center gap-4 mb-4"
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
           >
-            <button 
-              onClick={() => setIsModalOpen(true)}
-              className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm transition-colors"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
-              </svg>
-              Edit Filters
-            </button>
+            <PresetPicker
+              presets={visiblePresets}
+              activePresetId={activePresetId}
+              onSelect={handleSelectPreset}
+              onDelete={handleDeletePreset}
+            />
+            <div className="flex gap-2">
+              <button 
+                onClick={handleExportWorkbook}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                </svg>
+                Export .xlsx
+              </button>
+              <button 
+                onClick={() => setIsModalOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-sm transition-colors"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+                </svg>
+                Edit Filters
+              </button>
+            </div>
           </motion.div>
         )}
 
+        {countedFiles.length > 1 && <ConsolidatedDashboard files={countedFiles} />}
+
         <div className="space-y-6">
           <AnimatePresence>
-            {files.map(file => (
+            {countedFiles.map(file => (
               <FileCard 
                 key={file.id} 
                 fileData={file} 
+                wordFilterState={fileFilterStates[file.id]}
+                filterSource={filterSourceLabel(fileFilters[file.id])}
+                reportHref={reportHref(file)}
+                demand={demandByStation[stationKey(file)]}
+                categoryMapping={categoryMappings[file.companyName]}
+                complianceLimits={complianceLimits}
+                overtimeSettings={overtimeSettings}
                 onRemove={() => handleRemoveFile(file.id)}
-                onOpenSettings={() => setIsModalOpen(true)}
+                onOpenSettings={() => setFilterFileId(file.id)}
+                onOpenLayout={() => setLayoutFileId(file.id)}
+                onOpenDemand={() => setDemandFileId(file.id)}
+                onOpenCategories={() => setCategoryCompany(file.companyName)}
+                onOpenCompliance={() => setIsComplianceOpen(true)}
+                onOpenOvertime={() => setIsOvertimeOpen(true)}
+                onOpenDraft={() => setDraftFileId(file.id)}
+                onEdit={rawData => handleEditFile(file.id, rawData)}
+                onSaveVersion={() => handleSaveVersion(file.id)}
               />
             ))}
           </AnimatePresence>
@@ -559,13 +1350,173 @@ export default function Home() {
       </div>
 
       <AnimatePresence>
-        {isModalOpen && (
+        {pendingWorkbooks.length > 0 && (
+          <SheetPickerModal
+            key={pendingWorkbooks[0].id}
+            workbook={pendingWorkbooks[0]}
+            onConfirm={handleSheetsPicked}
+            onCancel={() => setPendingWorkbooks(prev => prev.slice(1))}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {demandFile && (
+          <DemandEditorModal
+            stationName={demandFile.stationName}
+            counts={demandFile.counts}
+            demand={demandByStation[stationKey(demandFile)]}
+            onSave={demand => handleSaveDemand(demandFile, demand)}
+            onClose={() => setDemandFileId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {draftSource && (
+          <DraftScheduleModal
+            companyName={draftSource.file.companyName}
+            stationName={draftSource.file.stationName}
+            roster={draftSource.roster}
+            defaultStart={draftSource.defaultStart}
+            defaultAssignment={draftSource.defaultAssignment}
+            demand={demandByStation[stationKey(draftSource.file)]}
+            limits={complianceLimits}
+            onOpenDraft={handleOpenDraft}
+            onClose={() => setDraftFileId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isOvertimeOpen && (
+          <OvertimeSettingsModal
+            settings={overtimeSettings}
+            labels={untimedLabels(
+              countedFiles.map(file => scheduleHours(file.rawData, fileFilterStates[file.id], file.layoutDetection.layout))
+            )}
+            onSave={settings => {
+              setOvertimeSettings(settings);
+              setIsOvertimeOpen(false);
+            }}
+            onClose={() => setIsOvertimeOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isComplianceOpen && (
+          <ComplianceLimitsModal
+            limits={complianceLimits}
+            onSave={limits => {
+              setComplianceLimits(limits);
+              setIsComplianceOpen(false);
+            }}
+            onClose={() => setIsComplianceOpen(false)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {categoryCompany && (
+          <CategoryMappingModal
+            companyName={categoryCompany}
+            words={categoryWords}
+            mapping={categoryMappings[categoryCompany]}
+            onSave={mapping => handleSaveCategories(categoryCompany, mapping)}
+            onClose={() => setCategoryCompany(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {layoutFile && (
+          <LayoutOverrideModal
+            file={layoutFile}
+            onApply={layout => handleLayoutChange(layoutFile.id, manualLayout(layout, getDateColumns(layoutFile.rawData, layout).length))}
+            onReset={() => handleLayoutChange(layoutFile.id, detectLayout(layoutFile.rawData))}
+            onClose={() => setLayoutFileId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {isModalOpen && pendingWorkbooks.length === 0 && (
           <FilterConfigModal
             isOpen={isModalOpen}
             onClose={() => setIsModalOpen(false)}
             wordFilterState={wordFilterState}
-            setWordFilterState={setWordFilterState}
+            onSetWords={handleSetWords}
+            rules={filterRules}
+            setRules={setFilterRules}
             uniqueWords={uniqueWords}
+            stations={stations}
+            activePreset={presets.find(p => p.id === activePresetId) ?? null}
+            onSavePreset={handleSavePreset}
+            onExport={handleExportFilters}
+            onImport={handleImportFilters}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {compareUpload && (
+          <UploadDiffModal
+            uploads={compareUploads}
+            initialAfterId={compareUpload.id}
+            filterStateFor={compareFilterState}
+            onClose={() => setCompareUploadId(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {pendingImport && (
+          <FilterConfigImportModal
+            fileName={pendingImport.fileName}
+            incoming={pendingImport.config}
+            preview={previewFilterConfigImport(currentFilterConfig, pendingImport.config, uniqueWords)}
+            currentRuleCount={filterRules.length}
+            onApply={handleApplyImport}
+            onClose={() => setPendingImport(null)}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {filterFile && (
+          <FilterConfigModal
+            isOpen
+            onClose={() => setFilterFileId(null)}
+            fileName={filterFile.fileName}
+            sourcePicker={
+              <FilterSourcePicker
+                override={filterFileOverride}
+                presets={presetsForStations(presets, [filterFile])}
+                onChange={choice => handleFilterSourceChange(filterFile.id, choice)}
+              />
+            }
+            inheritedNote={
+              filterFileCustom
+                ? null
+                : filterFileOverride
+                  ? `${filterSourceLabel(filterFileOverride)}. Choose custom filters to change them for this file only.`
+                  : 'This file follows the global filters. Choose custom filters to count it differently from the other files.'
+            }
+            wordFilterState={fileFilterStates[filterFile.id] ?? {}}
+            onSetWords={(words, included) =>
+              filterFileCustom &&
+              updateFileFilter(filterFile.id, {
+                ...filterFileCustom,
+                wordFilterState: withWordOverrides(filterFileCustom.wordFilterState, filterFileCustom.rules, words, included),
+              })
+            }
+            rules={filterFileCustom?.rules ?? []}
+            setRules={rules => filterFileCustom && updateFileFilter(filterFile.id, { ...filterFileCustom, rules })}
+            uniqueWords={filterFileWords}
+            stations={[{ companyName: filterFile.companyName, stationName: filterFile.stationName }]}
+            activePreset={null}
+            onSavePreset={(name, scope) => handleSaveFilePreset(filterFile.id, name, scope)}
           />
         )}
       </AnimatePresence>
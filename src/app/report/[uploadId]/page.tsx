@@ -0,0 +1,241 @@
+import { notFound } from 'next/navigation';
+import {
+  ASSIGNMENT_CATEGORIES,
+  FILTER_RULE_KINDS,
+  WEEKDAY_LABELS,
+  computeDemandGaps,
+  countByCategory,
+  extractFileInfo,
+  extractUniqueWords,
+  formatWordLabel,
+  hasDemand,
+  parseScheduleDate,
+  processExcelData,
+  summarizeGaps,
+  summarizeGapsByWeek,
+  usedCategories,
+  withDefaultFilterState,
+  type ScheduleLayout,
+} from '@/lib/schedule';
+import { PrintButton } from '@/components/schedule/print-button';
+import { getCategoryMapping } from '@/lib/category-store';
+import { getStationDemand } from '@/lib/demand-store';
+import { reportFilterSchema } from '@/lib/filter-preset-schema';
+import { resolveFilterSet, type ResolvedFilterSet } from '@/lib/filter-preset-store';
+import { layoutSchema } from '@/lib/schedule-schema';
+import { getScheduleUpload } from '@/lib/schedule-store';
+
+interface ReportPageProps {
+  params: Promise<{ uploadId: string }>;
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// Filters the card had that aren't a saved preset come in ?filter= as JSON
+const parseFilter = (value: string | string[] | undefined, words: string[]): ResolvedFilterSet | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const parsed = reportFilterSchema.safeParse(JSON.parse(value));
+    if (!parsed.success) return null;
+    const { label, rules, wordFilterState } = parsed.data;
+    return { label, rules, wordFilterState: withDefaultFilterState(wordFilterState, words, rules) };
+  } catch {
+    return null;
+  }
+};
+
+// The card's layout, which differs from the saved one after a manual override, comes in ?layout= as JSON
+const parseLayout = (value: string | string[] | undefined): ScheduleLayout | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const parsed = layoutSchema.safeParse(JSON.parse(value));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+const formatGap = (gap: number) => (gap > 0 ? `+${gap}` : String(gap));
+
+const sectionClass = 'break-inside-avoid space-y-3';
+const thClass = 'border-b-2 border-slate-300 py-1.5 px-2 text-left font-semibold';
+const tdClass = 'border-b border-slate-200 py-1 px-2';
+
+// GET /report/:uploadId?filterSet=default|all|<preset id or name>&filter=<ReportFilter JSON>&layout=<ScheduleLayout JSON>
+// ?filter= takes precedence over ?filterSet=
+export default async function ReportPage({ params, searchParams }: ReportPageProps) {
+  const { uploadId } = await params;
+  const query = await searchParams;
+
+  const upload = await getScheduleUpload(uploadId);
+  if (!upload) notFound();
+
+  const layout = parseLayout(query.layout) ?? upload.layoutDetection.layout;
+  const { companyName, stationName } = extractFileInfo(upload.rawData, layout);
+  const words = extractUniqueWords(upload.rawData, layout);
+
+  const inlineFilter = parseFilter(query.filter, words);
+  const requested = typeof query.filterSet === 'string' ? query.filterSet : 'default';
+  const requestedFilter = inlineFilter ?? (await resolveFilterSet(requested, { companyName, stationName }, words));
+  // An unknown preset or unreadable ?filter= falls back to the default exclusions, which is said in the report
+  const filter = requestedFilter ?? (await resolveFilterSet('default', { companyName, stationName }, words))!;
+  const fallbackReason = requestedFilter
+    ? null
+    : query.filter !== undefined
+      ? 'the filters passed to this report could not be read'
+      : `no preset named "${requested}"`;
+
+  const { counts } = processExcelData(upload.rawData, filter.wordFilterState, layout);
+  const demand = await getStationDemand({ companyName, stationName });
+  const gaps = computeDemandGaps(counts, demand);
+  const withDemand = hasDemand(demand);
+  const totals = summarizeGaps(gaps);
+  const weeks = summarizeGapsByWeek(gaps);
+
+  const categoryCounts = countByCategory(upload.rawData, await getCategoryMapping(companyName), layout);
+  const categories = usedCategories(categoryCounts);
+  const excludedWords = words.filter(word => filter.wordFilterState[word] === false);
+
+  return (
+    <main className="min-h-screen bg-white text-slate-900 print:min-h-0">
+      <div className="max-w-4xl mx-auto p-8 space-y-8 text-sm print:p-0 print:max-w-none">
+        <header className="flex justify-between items-start gap-6 border-b-2 border-slate-900 pb-4">
+          <div>
+            <p className="text-xs uppercase tracking-wider text-slate-500">{companyName}</p>
+            <h1 className="text-2xl font-bold">{stationName} — Schedule Report</h1>
+            <p className="text-slate-600 mt-1">
+              {upload.fileName}
+              {upload.sheetName && ` › ${upload.sheetName}`}
+              {counts.length > 0 && ` · ${counts[0].date} – ${counts[counts.length - 1].date}`}
+            </p>
+            <p className="text-xs text-slate-500 mt-1">Generated {new Date().toLocaleString()}</p>
+          </div>
+          <PrintButton />
+        </header>
+
+        <section className={sectionClass}>
+          <h2 className="text-lg font-semibold">Daily Valid Count</h2>
+          <table className="w-full border-collapse">
+            <thead>
+              <tr>
+                <th className={thClass}>Date</th>
+                <th className={thClass}>Day</th>
+                <th className={`${thClass} text-right`}>Scheduled</th>
+                {withDemand && <th className={`${thClass} text-right`}>Target</th>}
+                {withDemand && <th className={`${thClass} text-right`}>Gap</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {gaps.map(item => {
+                const date = parseScheduleDate(item.rawDate);
+                return (
+                  <tr key={item.column}>
+                    <td className={tdClass}>{item.date}</td>
+                    <td className={tdClass}>{date ? WEEKDAY_LABELS[date.getDay()] : ''}</td>
+                    <td className={`${tdClass} text-right font-medium`}>{item.count}</td>
+                    {withDemand && <td className={`${tdClass} text-right`}>{item.demand ?? '—'}</td>}
+                    {withDemand && (
+                      <td className={`${tdClass} text-right ${item.gap !== null && item.gap < 0 ? 'text-red-700 font-semibold' : ''}`}>
+                        {item.gap === null ? '—' : formatGap(item.gap)}
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+              <tr className="font-semibold">
+                <td className={tdClass} colSpan={2}>Total</td>
+                <td className={`${tdClass} text-right`}>{counts.reduce((sum, item) => sum + item.count, 0)}</td>
+                {withDemand && <td className={`${tdClass} text-right`}>{gaps.reduce((sum, item) => sum + (item.demand ?? 0), 0)}</td>}
+                {withDemand && <td className={`${tdClass} text-right`}>{formatGap(totals.net)}</td>}
+              </tr>
+            </tbody>
+          </table>
+        </section>
+
+        {withDemand && (
+          <section className={sectionClass}>
+            <h2 className="text-lg font-semibold">Shortfall vs. Target</h2>
+            <table className="w-full border-collapse">
+              <thead>
+                <tr>
+                  <th className={thClass}>Week</th>
+                  <th className={`${thClass} text-right`}>Days short</th>
+                  <th className={`${thClass} text-right`}>Shortfall</th>
+                  <th className={`${thClass} text-right`}>Surplus</th>
+                  <th className={`${thClass} text-right`}>Net</th>
+                </tr>
+              </thead>
+              <tbody>
+                {[...weeks, totals].map(week => (
+                  <tr key={week.key} className={week === totals ? 'font-semibold' : ''}>
+                    <td className={tdClass}>{week.label}</td>
+                    <td className={`${tdClass} text-right`}>{week.daysShort}</td>
+                    <td className={`${tdClass} text-right text-red-700`}>{week.shortfall}</td>
+                    <td className={`${tdClass} text-right`}>{week.surplus}</td>
+                    <td className={`${tdClass} text-right`}>{formatGap(week.net)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        {categories.length > 0 && (
+          <section className={sectionClass}>
+            <h2 className="text-lg font-semibold">Assignments by Category</h2>
+            <table className="w-full border-collapse">
+              <thead>
+                <tr>
+                  <th className={thClass}>Date</th>
+                  {categories.map(id => (
+                    <th key={id} className={`${thClass} text-right`}>{ASSIGNMENT_CATEGORIES[id].label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {categoryCounts.map(count => (
+                  <tr key={count.column}>
+                    <td className={tdClass}>{count.date}</td>
+                    {categories.map(id => (
+                      <td key={id} className={`${tdClass} text-right`}>{count.byCategory[id] || ''}</td>
+                    ))}
+                  </tr>
+                ))}
+                <tr className="font-semibold">
+                  <td className={tdClass}>Total</td>
+                  {categories.map(id => (
+                    <td key={id} className={`${tdClass} text-right`}>
+                      {categoryCounts.reduce((sum, count) => sum + count.byCategory[id], 0)}
+                    </td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        <section className={sectionClass}>
+          <h2 className="text-lg font-semibold">Filter Settings</h2>
+          <p>
+            <span className="font-medium">{filter.label}</span>
+            {fallbackReason && <span className="text-red-700"> — {fallbackReason}, default exclusions used</span>}
+          </p>
+          {filter.rules.length > 0 && (
+            <ol className="list-decimal pl-6 space-y-0.5">
+              {filter.rules.map(rule => (
+                <li key={rule.id}>
+                  {rule.action === 'exclude' ? 'Exclude' : 'Include'}:{' '}
+                  {FILTER_RULE_KINDS.find(item => item.kind === rule.kind)?.label ?? rule.kind}
+                  {rule.kind !== 'numeric' && <> <code className="font-mono">{formatWordLabel(rule.pattern)}</code></>}
+                </li>
+              ))}
+            </ol>
+          )}
+          <p className="text-slate-600">
+            Not counted ({excludedWords.length}):{' '}
+            {excludedWords.length === 0 ? 'nothing' : excludedWords.map(formatWordLabel).join(', ')}
+          </p>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,75 @@
+'use client';
+
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { ASSIGNMENT_CATEGORIES, ASSIGNMENT_CATEGORY_IDS, usedCategories, type CategoryCount } from '@/lib/schedule';
+
+interface CategoryBreakdownProps {
+  counts: CategoryCount[];
+}
+
+export const CategoryBreakdown = ({ counts }: CategoryBreakdownProps) => {
+  const categories = usedCategories(counts);
+
+  const config: ChartConfig = Object.fromEntries(
+    categories.map(id => [id, { label: ASSIGNMENT_CATEGORIES[id].label, color: ASSIGNMENT_CATEGORIES[id].color }])
+  );
+  // Dates repeat across months in some exports, so bars are keyed by column
+  const data = counts.map(count => ({ key: String(count.column), label: count.date, ...count.byCategory }));
+  const labelOf = (key: string) => data.find(point => point.key === key)?.label ?? key;
+
+  if (counts.length === 0) {
+    return <p className="text-slate-500 text-sm text-center py-4">No dates found in this sheet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer config={config} className="h-64 w-full aspect-auto">
+        <BarChart data={data} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+          <CartesianGrid vertical={false} stroke="#334155" />
+          <XAxis dataKey="key" tickFormatter={labelOf} tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.label} />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          {categories.map(id => (
+            <Bar key={id} dataKey={id} stackId="categories" fill={`var(--color-${id})`} />
+          ))}
+        </BarChart>
+      </ChartContainer>
+
+      <div className="flex flex-wrap gap-2">
+        {categories.map(id => (
+          <div key={id} className="text-xs px-3 py-1.5 rounded-lg bg-slate-900/50 border border-slate-700/50 text-slate-400">
+            <span className="inline-block w-2 h-2 rounded-sm mr-1.5" style={{ backgroundColor: ASSIGNMENT_CATEGORIES[id].color }} />
+            {ASSIGNMENT_CATEGORIES[id].label}:{' '}
+            <span className="text-white font-medium">{counts.reduce((sum, count) => sum + count.byCategory[id], 0)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// A thin stacked bar of one date's categories, for the daily tiles.
+export const CategoryStrip = ({ count }: { count: CategoryCount }) => {
+  const parts = ASSIGNMENT_CATEGORY_IDS.filter(id => count.byCategory[id] > 0);
+  const title = parts.map(id => `${ASSIGNMENT_CATEGORIES[id].label}: ${count.byCategory[id]}`).join('\n');
+
+  return (
+    <div className="flex h-1.5 mt-2 rounded-full overflow-hidden bg-slate-800" title={title}>
+      {parts.map(id => (
+        <div
+          key={id}
+          style={{ width: `${(count.byCategory[id] / count.total) * 100}%`, backgroundColor: ASSIGNMENT_CATEGORIES[id].color }}
+        />
+      ))}
+    </div>
+  );
+};
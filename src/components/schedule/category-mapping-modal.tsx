@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ASSIGNMENT_CATEGORIES,
+  ASSIGNMENT_CATEGORY_IDS,
+  categoryOf,
+  formatWordLabel,
+  guessCategory,
+  type AssignmentCategory,
+  type CategoryMapping,
+} from '@/lib/schedule';
+
+interface CategoryMappingModalProps {
+  companyName: string;
+  words: string[];
+  mapping: CategoryMapping | undefined;
+  onSave: (mapping: CategoryMapping) => void;
+  onClose: () => void;
+}
+
+export const CategoryMappingModal = ({ companyName, words, mapping, onSave, onClose }: CategoryMappingModalProps) => {
+  const [draft, setDraft] = useState<CategoryMapping>(mapping ?? {});
+  const [searchTerm, setSearchTerm] = useState('');
+
+  // Picking the guessed category drops the entry, so improved guesses still reach the word
+  const assign = (word: string, category: AssignmentCategory) =>
+    setDraft(prev => {
+      const next = { ...prev };
+      if (category === guessCategory(word)) delete next[word];
+      else next[word] = category;
+      return next;
+    });
+
+  const visibleWords = words.filter(word => word.toLowerCase().includes(searchTerm.toLowerCase()));
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-2xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white">Assignment Categories — {companyName}</h2>
+          <p className="text-sm text-slate-400 mt-1">
+            Applies to every station of this company. Unmapped words use the category guessed from their name.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          <input
+            type="text"
+            placeholder="Search words..."
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 text-sm"
+          />
+
+          <div className="bg-slate-800/30 border border-slate-700 rounded-lg divide-y divide-slate-700/50">
+            {visibleWords.length === 0 ? (
+              <p className="text-slate-500 text-sm text-center py-4">No words match search.</p>
+            ) : (
+              visibleWords.map(word => {
+                const category = categoryOf(draft, word);
+                return (
+                  <div key={word} className="flex items-center justify-between gap-4 px-3 py-2">
+                    <span className="text-sm text-slate-200 truncate">
+                      {formatWordLabel(word)}
+                      {draft[word] === undefined && <span className="ml-2 text-xs text-slate-500">guessed</span>}
+                    </span>
+                    <select
+                      value={category}
+                      onChange={e => assign(word, e.target.value as AssignmentCategory)}
+                      className="bg-slate-800 border border-slate-600 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-emerald-500"
+                      style={{ color: ASSIGNMENT_CATEGORIES[category].color }}
+                    >
+                      {ASSIGNMENT_CATEGORY_IDS.map(id => (
+                        <option key={id} value={id}>{ASSIGNMENT_CATEGORIES[id].label}</option>
+                      ))}
+                    </select>
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-between gap-2">
+          <button
+            onClick={() => setDraft({})}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Reset to Guesses
+          </button>
+          <motion.button
+            onClick={() => onSave(draft)}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Save Categories
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
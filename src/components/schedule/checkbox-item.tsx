@@ -0,0 +1,42 @@
+'use client';
+
+import { motion } from 'framer-motion';
+
+interface CheckboxItemProps {
+  label: string;
+  description?: string;
+  checked: boolean;
+  onChange: () => void;
+}
+
+export const CheckboxItem = ({ label, description, checked, onChange }: CheckboxItemProps) => (
+  <div 
+    onClick={onChange}
+    className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-all select-none ${
+      checked 
+        ? 'bg-emerald-500/10 border-emerald-500/30 hover:border-emerald-400' 
+        : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'
+    }`}
+  >
+    <div className={`mt-0.5 w-5 h-5 rounded flex items-center justify-center border transition-colors ${
+      checked ? 'bg-emerald-500 border-emerald-500' : 'border-slate-500 bg-slate-900'
+    }`}>
+      {checked && (
+        <motion.svg 
+          initial={{ scale: 0 }} 
+          animate={{ scale: 1 }} 
+          className="w-3 h-3 text-white" 
+          fill="none" stroke="currentColor" viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+        </motion.svg>
+      )}
+    </div>
+    <div className="flex-1">
+      <div className={`text-sm font-medium ${checked ? 'text-white' : 'text-slate-400'}`}>
+        {label}
+      </div>
+      {description && <div className="text-xs text-slate-500 mt-0.5">{description}</div>}
+    </div>
+  </div>
+);
@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { DEFAULT_COMPLIANCE_LIMITS, type ComplianceLimits } from '@/lib/schedule';
+
+interface ComplianceLimitsModalProps {
+  limits: ComplianceLimits;
+  onSave: (limits: ComplianceLimits) => void;
+  onClose: () => void;
+}
+
+const FIELDS: { key: keyof ComplianceLimits; label: string; hint: string; min: number; max: number }[] = [
+  { key: 'maxConsecutiveDays', label: 'Max consecutive days', hint: 'Longest run of worked days allowed', min: 1, max: 31 },
+  { key: 'maxDaysPerWeek', label: 'Max days per week', hint: 'Worked days allowed Monday to Sunday', min: 1, max: 7 },
+  { key: 'minRestDays', label: 'Min rest days in any 7', hint: '0 turns the rest check off', min: 0, max: 7 },
+];
+
+const inputClass =
+  'w-24 bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-white text-sm text-center focus:outline-none focus:border-emerald-500';
+
+export const ComplianceLimitsModal = ({ limits, onSave, onClose }: ComplianceLimitsModalProps) => {
+  const [draft, setDraft] = useState<ComplianceLimits>(limits);
+
+  const setField = ({ key, min, max }: (typeof FIELDS)[number], input: string) =>
+    setDraft(prev => ({ ...prev, [key]: Math.min(Math.max(Math.round(Number(input) || 0), min), max) }));
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-md bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white">Fatigue Limits</h2>
+          <p className="text-sm text-slate-400 mt-1">Only counted assignments are worked days; applies to every station.</p>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          {FIELDS.map(field => (
+            <label key={field.key} className="flex justify-between items-center gap-4">
+              <span>
+                <span className="block text-sm text-slate-200">{field.label}</span>
+                <span className="block text-xs text-slate-500">{field.hint}</span>
+              </span>
+              <input
+                type="number"
+                min={field.min}
+                max={field.max}
+                value={draft[field.key]}
+                onChange={e => setField(field, e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-between gap-2">
+          <button
+            onClick={() => setDraft(DEFAULT_COMPLIANCE_LIMITS)}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Reset
+          </button>
+          <motion.button
+            onClick={() => onSave(draft)}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Save Limits
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
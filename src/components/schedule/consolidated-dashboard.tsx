@@ -0,0 +1,165 @@
+'use client';
+
+import { Fragment, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { consolidateCounts, type ConsolidationGrouping, type ScheduleFile } from '@/lib/schedule';
+import { CountTrendChart } from './count-trend-chart';
+
+interface ConsolidatedDashboardProps {
+  files: ScheduleFile[];
+}
+
+type DashboardView = 'matrix' | 'chart';
+
+const GROUPINGS: { value: ConsolidationGrouping; label: string }[] = [
+  { value: 'station', label: 'By station' },
+  { value: 'company', label: 'By company' },
+];
+
+const toggleClass = (active: boolean) =>
+  `text-xs px-3 py-1 rounded transition-colors ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`;
+
+const cellClass = 'px-2 py-1.5 text-right whitespace-nowrap';
+
+export const ConsolidatedDashboard = ({ files }: ConsolidatedDashboardProps) => {
+  const [grouping, setGrouping] = useState<ConsolidationGrouping>('station');
+  const [view, setView] = useState<DashboardView>('matrix');
+
+  const { axis, rows, dailyTotals, total } = useMemo(() => consolidateCounts(files, grouping), [files, grouping]);
+  const companies = Array.from(new Set(rows.map(row => row.companyName)));
+  const days = axis.filter(point => point.date).length;
+
+  // Company subtotals are only worth a row when a company has more than one station
+  const companySubtotal = (companyName: string) => {
+    const members = rows.filter(row => row.companyName === companyName);
+    return members.length > 1 ? members : null;
+  };
+
+  return (
+    <motion.div
+      className="bg-slate-800/60 rounded-2xl border border-slate-700/50 p-5 mb-6 space-y-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h4 className="text-sm font-medium text-slate-400">All Stations</h4>
+        <div className="flex gap-2">
+          <div className="flex gap-1 bg-slate-900/50 rounded-lg p-1">
+            {GROUPINGS.map(option => (
+              <button key={option.value} onClick={() => setGrouping(option.value)} className={toggleClass(grouping === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1 bg-slate-900/50 rounded-lg p-1">
+            {(['matrix', 'chart'] as DashboardView[]).map(option => (
+              <button key={option} onClick={() => setView(option)} className={`${toggleClass(view === option)} capitalize`}>
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div>
+          <div className="text-xs text-slate-500">Total valid</div>
+          <div className="text-2xl font-bold text-emerald-400">{total}</div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Avg / day</div>
+          <div className="text-lg font-semibold text-white">{days > 0 ? (total / days).toFixed(1) : '—'}</div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Stations</div>
+          <div className="text-lg font-semibold text-white">
+            {new Set(files.map(file => `${file.companyName}/${file.stationName}`)).size}
+          </div>
+        </div>
+        <div>
+          <div className="text-xs text-slate-500">Companies</div>
+          <div className="text-lg font-semibold text-white">{companies.length}</div>
+        </div>
+      </div>
+
+      {view === 'chart' ? (
+        <CountTrendChart axis={axis} series={rows.map(row => ({ id: row.key, label: row.label }))} />
+      ) : (
+        <div className="overflow-x-auto border border-slate-700/50 rounded-lg">
+          <table className="w-full text-xs text-slate-300">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700 bg-slate-900/50">
+                <th className="px-2 py-2 font-medium text-left sticky left-0 bg-slate-900">
+                  {grouping === 'company' ? 'Company' : 'Station'}
+                </th>
+                {axis.map(point => (
+                  <th key={point.key} className={`${cellClass} font-medium`}>{point.label}</th>
+                ))}
+                <th className={`${cellClass} font-medium`}>Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {companies.map(companyName => {
+                const subtotal = grouping === 'station' ? companySubtotal(companyName) : null;
+                return (
+                  <Fragment key={companyName}>
+                    {grouping === 'station' && (
+                      <tr className="bg-slate-900/30">
+                        <td colSpan={axis.length + 2} className="px-2 py-1 text-emerald-400 font-medium sticky left-0">
+                          {companyName}
+                        </td>
+                      </tr>
+                    )}
+                    {rows
+                      .filter(row => row.companyName === companyName)
+                      .map(row => (
+                        <tr key={row.key} className="border-b border-slate-800">
+                          <td className="px-2 py-1.5 whitespace-nowrap sticky left-0 bg-slate-900">
+                            <span className={grouping === 'station' ? 'text-cyan-400 pl-2' : 'text-emerald-400'}>{row.label}</span>
+                            {grouping === 'company' && (
+                              <span className="text-slate-500 ml-1">({row.stationNames.join(', ')})</span>
+                            )}
+                            {row.fileCount > 1 && <span className="text-slate-500 ml-1">· {row.fileCount} files</span>}
+                            {row.overlaps.length > 0 && (
+                              <span
+                                className="text-amber-400 ml-1"
+                                title={`Covered by more than one file: ${row.overlaps.join(', ')}. The last opened file's count is used.`}
+                              >
+                                · {row.overlaps.length} {row.overlaps.length === 1 ? 'day' : 'days'} in several files
+                              </span>
+                            )}
+                          </td>
+                          {axis.map(point => (
+                            <td key={point.key} className={cellClass}>{point.values[row.key] ?? '—'}</td>
+                          ))}
+                          <td className={`${cellClass} font-semibold text-white`}>{row.total}</td>
+                        </tr>
+                      ))}
+                    {subtotal && (
+                      <tr className="border-b border-slate-700 text-slate-400">
+                        <td className="px-2 py-1.5 sticky left-0 bg-slate-900 pl-4">Subtotal</td>
+                        {axis.map(point => (
+                          <td key={point.key} className={cellClass}>
+                            {subtotal.reduce((sum, row) => sum + (point.values[row.key] ?? 0), 0)}
+                          </td>
+                        ))}
+                        <td className={cellClass}>{subtotal.reduce((sum, row) => sum + row.total, 0)}</td>
+                      </tr>
+                    )}
+                  </Fragment>
+                );
+              })}
+              <tr className="font-semibold text-white bg-slate-900/50">
+                <td className="px-2 py-1.5 sticky left-0 bg-slate-900">Total</td>
+                {axis.map(point => (
+                  <td key={point.key} className={`${cellClass} text-emerald-400`}>{dailyTotals[point.key]}</td>
+                ))}
+                <td className={`${cellClass} text-emerald-400`}>{total}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,66 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import type { CountRollup, GapSummary } from '@/lib/schedule';
+
+interface CountRollupsProps {
+  rollups: CountRollup[];
+  /** Demand gaps keyed like the rollups (ISO week keys). */
+  gapSummaries?: GapSummary[];
+}
+
+const Stat = ({ label, value, detail }: { label: string; value: string | number; detail?: string }) => (
+  <div>
+    <div className="text-xs text-slate-500">{label}</div>
+    <div className="text-lg font-semibold text-white">{value}</div>
+    {detail && <div className="text-xs text-slate-500">{detail}</div>}
+  </div>
+);
+
+export const CountRollups = ({ rollups, gapSummaries = [] }: CountRollupsProps) => (
+  <div className="space-y-3">
+    {rollups.map((rollup, idx) => {
+      const gap = gapSummaries.find(summary => summary.key === rollup.key);
+      return (
+        <motion.div
+          key={rollup.key}
+          className="bg-slate-900/50 rounded-lg p-4 border border-slate-700/50"
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: idx * 0.05 }}
+        >
+          <div className="flex justify-between items-baseline mb-3">
+            <div className="text-sm font-medium text-slate-300">{rollup.label}</div>
+            <div className="text-xs text-slate-500">{rollup.counts.length} day{rollup.counts.length === 1 ? '' : 's'}</div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+            <div>
+              <div className="text-xs text-slate-500">Subtotal</div>
+              <div className="text-2xl font-bold text-emerald-400">{rollup.total}</div>
+            </div>
+            <Stat label="Daily average" value={rollup.average.toFixed(1)} />
+            <Stat label="Min" value={rollup.min.count} detail={rollup.min.date} />
+            <Stat label="Max" value={rollup.max.count} detail={rollup.max.date} />
+          </div>
+
+          {gap && (
+            <div className="text-xs text-slate-400 mb-3">
+              Demand gap: <span className="text-red-400">short {gap.shortfall}</span>
+              {' · '}<span className="text-cyan-400">over {gap.surplus}</span>
+              {' · '}{gap.daysShort} day{gap.daysShort === 1 ? '' : 's'} short
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-1">
+            {rollup.counts.map(item => (
+              <div key={item.column} className="text-xs px-2 py-1 rounded bg-slate-800 text-slate-400" title={item.date}>
+                {item.date}: <span className="text-emerald-300">{item.count}</span>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,36 @@
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it, vi } from 'vitest';
+import type { AlignedDate } from '@/lib/schedule';
+import { TrendPlot, type ChartVariant } from './count-trend-chart';
+
+// The tooltip reads the chart config from ChartContainer, which only renders once it has been measured
+vi.mock('@/components/ui/chart', async importOriginal => ({
+  ...(await importOriginal<typeof import('@/components/ui/chart')>()),
+  ChartTooltipContent: () => null,
+}));
+
+// Monday 1/6/2025 to Sunday 1/12/2025
+const axis: AlignedDate[] = [6, 7, 8, 9, 10, 11, 12].map(day => ({
+  key: `2025-01-${String(day).padStart(2, '0')}`,
+  label: `1/${day}`,
+  date: new Date(2025, 0, day),
+  values: { a: day },
+}));
+
+// Widths of the weekend ReferenceArea paths, read off their "M x,y h width" drawing
+const weekendWidths = (variant: ChartVariant) => {
+  const markup = renderToStaticMarkup(
+    <TrendPlot axis={axis} series={[{ id: 'a', label: 'Valid count' }]} variant={variant} target={null} width={700} height={256} />
+  );
+  return Array.from(markup.matchAll(/class="recharts-rectangle recharts-reference-area-rect"[^>]*d="M\s*[\d.]+,[\d.]+\s*h\s*([\d.]+)/g)).map(
+    match => Number(match[1])
+  );
+};
+
+describe('TrendPlot', () => {
+  it.each<ChartVariant>(['line', 'bar'])('shades the whole weekend columns in %s view', variant => {
+    const widths = weekendWidths(variant);
+    expect(widths).toHaveLength(2);
+    widths.forEach(width => expect(width).toBeGreaterThan(50));
+  });
+});
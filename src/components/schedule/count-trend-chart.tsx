@@ -0,0 +1,140 @@
+'use client';
+
+import { useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceArea, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { demandForDate, hasDemand, isWeekend, type AlignedDate, type StationDemand } from '@/lib/schedule';
+
+export const SERIES_COLORS = ['#34d399', '#22d3ee', '#a78bfa', '#f472b6', '#fbbf24', '#60a5fa', '#f87171', '#a3e635'];
+
+export interface TrendSeries {
+  id: string;
+  label: string;
+}
+
+interface CountTrendChartProps {
+  axis: AlignedDate[];
+  series: TrendSeries[];
+  /** The station's route demand, drawn per date so dips below it show; the flat target is extra. */
+  demand?: StationDemand;
+}
+
+export type ChartVariant = 'line' | 'bar';
+
+const DEMAND_KEY = 'demand';
+
+// File ids contain dots, which recharts would read as a property path
+const keyOf = (index: number) => `s${index}`;
+
+interface TrendPlotProps extends CountTrendChartProps {
+  variant: ChartVariant;
+  target: number | null;
+  /** Filled in by the ResponsiveContainer around the plot. */
+  width?: number;
+  height?: number;
+}
+
+// The chart itself, apart from its controls. The x axis is a band scale in both
+// variants, so a weekend's ReferenceArea covers its whole column in line view too.
+export const TrendPlot = ({ axis, series, demand, variant, target, width, height }: TrendPlotProps) => {
+  const withDemand = hasDemand(demand);
+
+  const data = axis.map(point => ({
+    key: point.key,
+    label: point.label,
+    ...Object.fromEntries(series.map((item, index) => [keyOf(index), point.values[item.id]])),
+    // Dates without demand leave a gap in the demand line
+    [DEMAND_KEY]: withDemand ? demandForDate(demand, point.date) : null,
+  }));
+
+  const weekends = axis.filter(point => point.date && isWeekend(point.date));
+  const labelOf = (key: string) => axis.find(point => point.key === key)?.label ?? key;
+
+  return (
+    <ComposedChart width={width} height={height} data={data} margin={{ top: 8, right: 8, left: 0, bottom: 0 }}>
+      <CartesianGrid vertical={false} stroke="#334155" />
+      {weekends.map(point => (
+        <ReferenceArea key={point.key} x1={point.key} x2={point.key} fill="#64748b" fillOpacity={0.15} ifOverflow="extendDomain" />
+      ))}
+      <XAxis dataKey="key" scale="band" tickFormatter={labelOf} tickLine={false} axisLine={false} tickMargin={8} minTickGap={16} />
+      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+      <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => payload?.[0]?.payload?.label} />} />
+      {(series.length > 1 || withDemand) && <ChartLegend content={<ChartLegendContent />} />}
+      {withDemand && (
+        <Line dataKey={DEMAND_KEY} type="step" stroke={`var(--color-${DEMAND_KEY})`} strokeWidth={2} strokeDasharray="6 4" dot={false} />
+      )}
+      {target !== null && (
+        <ReferenceLine y={target} stroke="#fbbf24" strokeDasharray="6 4" label={{ value: `Target ${target}`, fill: '#fbbf24', position: 'insideTopRight', fontSize: 11 }} />
+      )}
+      {variant === 'line'
+        ? series.map((item, index) => (
+            <Line
+              key={item.id}
+              dataKey={keyOf(index)}
+              type="monotone"
+              stroke={`var(--color-${keyOf(index)})`}
+              strokeWidth={2}
+              dot={{ r: 3 }}
+              connectNulls
+            />
+          ))
+        : series.map((item, index) => (
+            <Bar key={item.id} dataKey={keyOf(index)} fill={`var(--color-${keyOf(index)})`} radius={[4, 4, 0, 0]} />
+          ))}
+    </ComposedChart>
+  );
+};
+
+export const CountTrendChart = ({ axis, series, demand }: CountTrendChartProps) => {
+  const [variant, setVariant] = useState<ChartVariant>('line');
+  const [target, setTarget] = useState<number | null>(null);
+
+  const config: ChartConfig = Object.fromEntries([
+    ...series.map((item, index) => [keyOf(index), { label: item.label, color: SERIES_COLORS[index % SERIES_COLORS.length] }]),
+    ...(hasDemand(demand) ? [[DEMAND_KEY, { label: 'Route demand', color: '#f87171' }]] : []),
+  ]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center gap-4">
+        <div className="flex gap-1 bg-slate-900/50 rounded-lg p-1">
+          {(['line', 'bar'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setVariant(option)}
+              className={`text-xs px-3 py-1 rounded capitalize transition-colors ${
+                variant === option ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Target
+          <input
+            type="number"
+            min={0}
+            value={target ?? ''}
+            placeholder="none"
+            onChange={e => setTarget(e.target.value === '' ? null : Math.max(Number(e.target.value), 0))}
+            className="w-20 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-white focus:outline-none focus:border-emerald-500"
+          />
+        </label>
+      </div>
+
+      <ChartContainer config={config} className="h-64 w-full aspect-auto">
+        <TrendPlot axis={axis} series={series} demand={demand} variant={variant} target={target} />
+      </ChartContainer>
+
+      <p className="text-xs text-slate-500">Shaded columns are weekends.</p>
+    </div>
+  );
+};
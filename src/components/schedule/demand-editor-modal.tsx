@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  WEEKDAY_LABELS,
+  emptyDemand,
+  parseScheduleDate,
+  toDateKey,
+  type DailyCount,
+  type StationDemand,
+} from '@/lib/schedule';
+
+interface DemandEditorModalProps {
+  stationName: string;
+  counts: DailyCount[];
+  demand: StationDemand | undefined;
+  onSave: (demand: StationDemand) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-white text-sm placeholder-slate-600 focus:outline-none focus:border-emerald-500';
+
+// Empty input clears the value; anything else is a whole number of routes.
+const withValue = (values: Record<string | number, number>, key: string | number, input: string) => {
+  const next = { ...values };
+  if (input === '') delete next[key];
+  else next[key] = Math.max(Math.round(Number(input)), 0);
+  return next;
+};
+
+export const DemandEditorModal = ({ stationName, counts, demand, onSave, onClose }: DemandEditorModalProps) => {
+  const [draft, setDraft] = useState<StationDemand>(demand ?? emptyDemand());
+
+  const dates = counts
+    .map(item => ({ item, date: parseScheduleDate(item.rawDate) }))
+    .filter((entry): entry is { item: DailyCount; date: Date } => entry.date !== null);
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-2xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white">Route Demand — {stationName}</h2>
+          <p className="text-sm text-slate-400 mt-1">Routes needed per day. Date values override the weekday default.</p>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          <div>
+            <h3 className="text-sm font-medium text-slate-300 mb-2">Weekday defaults</h3>
+            <div className="grid grid-cols-7 gap-2">
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <label key={label} className="text-xs text-slate-400 space-y-1 text-center">
+                  <span>{label}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={draft.weekdayDefaults[weekday] ?? ''}
+                    onChange={e => setDraft(prev => ({ ...prev, weekdayDefaults: withValue(prev.weekdayDefaults, weekday, e.target.value) }))}
+                    className={`${inputClass} text-center`}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {dates.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-slate-300 mb-2">Dates in this schedule</h3>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {dates.map(({ item, date }) => {
+                  const key = toDateKey(date);
+                  return (
+                    <label key={item.column} className="text-xs text-slate-400 space-y-1">
+                      <span>{WEEKDAY_LABELS[date.getDay()]} {item.date}</span>
+                      <input
+                        type="number"
+                        min={0}
+                        value={draft.dates[key] ?? ''}
+                        placeholder={String(draft.weekdayDefaults[date.getDay()] ?? '—')}
+                        onChange={e => setDraft(prev => ({ ...prev, dates: withValue(prev.dates, key, e.target.value) }))}
+                        className={inputClass}
+                      />
+                    </label>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-between gap-2">
+          <button
+            onClick={() => setDraft(emptyDemand())}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Clear All
+          </button>
+          <motion.button
+            onClick={() => onSave(draft)}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Save Demand
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,310 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { addDays, format } from 'date-fns';
+import {
+  WEEKDAY_LABELS,
+  draftDriversFromRoster,
+  draftFileName,
+  draftWorkbook,
+  generateDraftSchedule,
+  hasDemand,
+  toDateKey,
+  writeWorkbook,
+  type ComplianceLimits,
+  type DayAvailability,
+  type DraftDriver,
+  type RosterDriver,
+  type ScheduleMatrix,
+  type StationDemand,
+} from '@/lib/schedule';
+import { downloadBlob } from '@/lib/download';
+
+interface DraftScheduleModalProps {
+  companyName: string;
+  stationName: string;
+  roster: RosterDriver[];
+  // The day after the source schedule ends
+  defaultStart: Date;
+  defaultAssignment: string;
+  demand: StationDemand | undefined;
+  limits: ComplianceLimits;
+  onOpenDraft: (fileName: string, rawData: ScheduleMatrix) => void;
+  onClose: () => void;
+}
+
+const NEXT_AVAILABILITY: Record<DayAvailability, DayAvailability> = {
+  available: 'prefers-off',
+  'prefers-off': 'unavailable',
+  unavailable: 'available',
+};
+
+const AVAILABILITY_CLASS: Record<DayAvailability, string> = {
+  available: 'bg-slate-800 text-slate-400 border-slate-700',
+  'prefers-off': 'bg-amber-500/20 text-amber-300 border-amber-500/40',
+  unavailable: 'bg-red-500/20 text-red-300 border-red-500/40',
+};
+
+const inputClass =
+  'bg-slate-800 border border-slate-600 rounded-lg px-3 py-1.5 text-white text-sm focus:outline-none focus:border-emerald-500';
+
+// Monday first, the way the weeks are counted
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+export const DraftScheduleModal = ({
+  companyName,
+  stationName,
+  roster,
+  defaultStart,
+  defaultAssignment,
+  demand,
+  limits,
+  onOpenDraft,
+  onClose,
+}: DraftScheduleModalProps) => {
+  const [startInput, setStartInput] = useState(format(defaultStart, 'yyyy-MM-dd'));
+  const [dayCount, setDayCount] = useState(7);
+  const [assignmentWord, setAssignmentWord] = useState(defaultAssignment);
+  const [drivers, setDrivers] = useState<DraftDriver[]>(() => draftDriversFromRoster(roster));
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  // Driver whose dates off are being picked
+  const [timeOffIndex, setTimeOffIndex] = useState<number | null>(null);
+
+  const startDate = useMemo(() => new Date(`${startInput}T00:00:00`), [startInput]);
+  const validStart = !isNaN(startDate.getTime());
+  const windowDates = useMemo(
+    () => (validStart ? Array.from({ length: dayCount }, (_, i) => addDays(startDate, i)) : []),
+    [validStart, startDate, dayCount]
+  );
+
+  const draft = useMemo(() => {
+    if (!validStart || !hasDemand(demand)) return null;
+    return generateDraftSchedule({
+      companyName,
+      stationName,
+      startDate,
+      dayCount,
+      demand,
+      drivers: drivers.filter((_, index) => !excluded.has(index)),
+      limits,
+      assignmentWord: assignmentWord.trim() || defaultAssignment,
+    });
+  }, [validStart, demand, companyName, stationName, startDate, dayCount, drivers, excluded, limits, assignmentWord, defaultAssignment]);
+
+  const cycleWeekday = (index: number, weekday: number) =>
+    setDrivers(prev =>
+      prev.map((driver, i) =>
+        i === index
+          ? { ...driver, weekdays: { ...driver.weekdays, [weekday]: NEXT_AVAILABILITY[driver.weekdays[weekday] ?? 'available'] } }
+          : driver
+      )
+    );
+
+  const toggleUnavailableDate = (index: number, key: string) =>
+    setDrivers(prev =>
+      prev.map((driver, i) =>
+        i === index
+          ? {
+              ...driver,
+              unavailableDates: driver.unavailableDates.includes(key)
+                ? driver.unavailableDates.filter(date => date !== key)
+                : [...driver.unavailableDates, key],
+            }
+          : driver
+      )
+    );
+
+  const toggleDriver = (index: number) =>
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+
+  // Shifts of the included drivers, which the draft lists in the same order
+  const includedShifts = draft?.shifts ?? [];
+  const fileName = validStart ? draftFileName(stationName, startDate) : '';
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-4xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50 space-y-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Draft Schedule — {stationName}</h2>
+            <p className="text-sm text-slate-400 mt-1">
+              Fills the route demand within the fatigue limits ({limits.maxConsecutiveDays} in a row, {limits.maxDaysPerWeek} a week,{' '}
+              {limits.minRestDays} rest in any 7), spreading days evenly across drivers.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+            <label className="space-y-1">
+              <span className="block">Start</span>
+              <input type="date" value={startInput} onChange={e => setStartInput(e.target.value)} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Days</span>
+              <input
+                type="number"
+                min={1}
+                max={42}
+                value={dayCount}
+                onChange={e => setDayCount(Math.min(Math.max(Math.round(Number(e.target.value) || 1), 1), 42))}
+                className={`${inputClass} w-20`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Assignment</span>
+              <input type="text" value={assignmentWord} onChange={e => setAssignmentWord(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          {!hasDemand(demand) && (
+            <p className="text-sm text-amber-400">
+              No route demand is set for {stationName}. Set it with the demand button on the schedule first.
+            </p>
+          )}
+
+          {draft && (
+            <div className="space-y-3">
+              <div className="flex flex-wrap gap-2 text-xs">
+                <span className={`px-2 py-1 rounded ${draft.shortfall > 0 ? 'bg-red-500/20 text-red-300' : 'bg-emerald-500/20 text-emerald-300'}`}>
+                  {draft.shortfall > 0 ? `${draft.shortfall} routes unfilled` : 'Demand met'}
+                </span>
+                {includedShifts.length > 0 && (
+                  <span className="px-2 py-1 rounded bg-slate-700 text-slate-300">
+                    {Math.min(...includedShifts)}–{Math.max(...includedShifts)} days per driver
+                  </span>
+                )}
+                {draft.preferenceMisses > 0 && (
+                  <span className="px-2 py-1 rounded bg-amber-500/20 text-amber-300">
+                    {draft.preferenceMisses} preferred days off worked
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {draft.days.map(day => (
+                  <div
+                    key={day.key}
+                    className={`px-2 py-1 rounded border text-xs text-center ${
+                      day.assigned < day.demand ? 'border-red-500/40 text-red-300' : 'border-slate-700 text-slate-300'
+                    }`}
+                  >
+                    <div className="text-slate-500">{WEEKDAY_LABELS[day.date.getDay()]} {format(day.date, 'M/d')}</div>
+                    {day.assigned}/{day.demand}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="text-sm font-medium text-slate-300">Drivers and availability</h3>
+              <span className="text-xs text-slate-500">
+                Click a day: <span className="text-slate-400">available</span> → <span className="text-amber-300">prefers off</span> →{' '}
+                <span className="text-red-300">unavailable</span>; dates off are picked per driver
+              </span>
+            </div>
+            <ul className="divide-y divide-slate-800">
+              {drivers.map((driver, index) => {
+                const included = !excluded.has(index);
+                const draftIndex = drivers.slice(0, index).filter((_, i) => !excluded.has(i)).length;
+                const daysOff = windowDates.filter(date => driver.unavailableDates.includes(toDateKey(date))).length;
+                return (
+                  <li key={`${driver.driverId}-${index}`} className="py-2 space-y-2">
+                    <div className="flex items-center justify-between gap-4">
+                      <label className="flex items-center gap-2 min-w-0 text-sm cursor-pointer">
+                        <input type="checkbox" checked={included} onChange={() => toggleDriver(index)} className="accent-emerald-500" />
+                        <span className={`truncate ${included ? 'text-white' : 'text-slate-500 line-through'}`}>
+                          {driver.name || driver.driverId}
+                        </span>
+                        {included && draft && <span className="text-xs text-slate-500">{draft.shifts[draftIndex]} days</span>}
+                      </label>
+                      <div className="flex gap-1 flex-shrink-0">
+                        <button
+                          onClick={() => setTimeOffIndex(timeOffIndex === index ? null : index)}
+                          disabled={!included || windowDates.length === 0}
+                          className={`px-2 py-1 rounded border text-xs transition-colors disabled:opacity-40 ${
+                            daysOff > 0 ? AVAILABILITY_CLASS.unavailable : AVAILABILITY_CLASS.available
+                          }`}
+                        >
+                          {daysOff > 0 ? `${daysOff} off` : 'Dates off'}
+                        </button>
+                        {WEEKDAY_ORDER.map(weekday => (
+                          <button
+                            key={weekday}
+                            onClick={() => cycleWeekday(index, weekday)}
+                            disabled={!included}
+                            className={`w-10 py-1 rounded border text-xs transition-colors disabled:opacity-40 ${
+                              AVAILABILITY_CLASS[driver.weekdays[weekday] ?? 'available']
+                            }`}
+                          >
+                            {WEEKDAY_LABELS[weekday]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {included && timeOffIndex === index && (
+                      <div className="flex flex-wrap gap-1 pl-6">
+                        {windowDates.map(date => {
+                          const key = toDateKey(date);
+                          const off = driver.unavailableDates.includes(key);
+                          return (
+                            <button
+                              key={key}
+                              onClick={() => toggleUnavailableDate(index, key)}
+                              className={`px-2 py-1 rounded border text-xs transition-colors ${
+                                AVAILABILITY_CLASS[off ? 'unavailable' : 'available']
+                              }`}
+                            >
+                              {WEEKDAY_LABELS[date.getDay()]} {format(date, 'M/d')}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-between gap-2">
+          <button
+            onClick={() => draft && downloadBlob(writeWorkbook(draftWorkbook(draft)), fileName)}
+            disabled={!draft}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors disabled:opacity-50"
+          >
+            Download .xlsx
+          </button>
+          <motion.button
+            onClick={() => draft && onOpenDraft(fileName, draft.rawData)}
+            disabled={!draft}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg disabled:opacity-50"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Open as Schedule
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,196 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  ASSIGNMENT_CATEGORIES,
+  formatWordLabel,
+  type FilterConfigFile,
+  type FilterConfigImportPreview,
+  type FilterConfigMergeOptions,
+} from '@/lib/schedule';
+
+interface FilterConfigImportModalProps {
+  fileName: string;
+  incoming: FilterConfigFile;
+  preview: FilterConfigImportPreview;
+  currentRuleCount: number;
+  onApply: (options: FilterConfigMergeOptions) => void;
+  onClose: () => void;
+}
+
+const stateLabel = (included: boolean) =>
+  included ? <span className="text-emerald-400">Counted</span> : <span className="text-red-400">Excluded</span>;
+
+export const FilterConfigImportModal = ({
+  fileName,
+  incoming,
+  preview,
+  currentRuleCount,
+  onApply,
+  onClose,
+}: FilterConfigImportModalProps) => {
+  const [replaceRules, setReplaceRules] = useState(true);
+  const [keepCurrent, setKeepCurrent] = useState<Set<string>>(new Set());
+
+  const setKept = (word: string, keep: boolean) =>
+    setKeepCurrent(prev => {
+      const next = new Set(prev);
+      if (keep) next.add(word);
+      else next.delete(word);
+      return next;
+    });
+
+  const nothingToReview =
+    preview.unknownWords.length === 0 &&
+    preview.conflicts.length === 0 &&
+    preview.categoryConflicts.length === 0 &&
+    !preview.rulesDiffer;
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-2xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white">Import Filters — {fileName}</h2>
+          <p className="text-sm text-slate-400 mt-1">
+            Exported {new Date(incoming.exportedAt).toLocaleString()} · {incoming.rules.length} rules ·{' '}
+            {Object.keys(incoming.wordFilterState).length} word toggles · {Object.keys(incoming.categories).length} companies with categories
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          {nothingToReview && (
+            <p className="text-sm text-slate-400">The imported configuration counts every current word the same way as yours.</p>
+          )}
+
+          {preview.rulesDiffer && (
+            <label className="flex items-center gap-3 text-sm text-slate-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={replaceRules}
+                onChange={e => setReplaceRules(e.target.checked)}
+                className="accent-emerald-500"
+              />
+              Replace your {currentRuleCount} rules with the {incoming.rules.length} imported rules
+            </label>
+          )}
+
+          {preview.unknownWords.length > 0 && (
+            <div className="bg-amber-500/5 border border-amber-500/30 rounded-lg p-4 space-y-2">
+              <h3 className="text-sm font-medium text-amber-400">
+                {preview.unknownWords.length} word{preview.unknownWords.length === 1 ? ' is' : 's are'} not in the current uploads
+              </h3>
+              <p className="text-xs text-slate-400">Their settings are imported anyway and apply once a schedule uses them.</p>
+              <div className="flex flex-wrap gap-1">
+                {preview.unknownWords.map(word => (
+                  <span key={word} className="px-1.5 py-0.5 rounded bg-slate-800 text-xs text-slate-300 font-mono">
+                    {formatWordLabel(word)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {preview.conflicts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium text-slate-300">
+                  {preview.conflicts.length} word{preview.conflicts.length === 1 ? '' : 's'} counted differently
+                </h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setKeepCurrent(new Set())}
+                    className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+                  >
+                    Use All Imported
+                  </button>
+                  <button
+                    onClick={() => setKeepCurrent(new Set(preview.conflicts.map(conflict => conflict.word)))}
+                    className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+                  >
+                    Keep All Current
+                  </button>
+                </div>
+              </div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-slate-500 border-b border-slate-700">
+                    <th className="py-2 font-medium">Word</th>
+                    <th className="py-2 font-medium">Yours</th>
+                    <th className="py-2 font-medium">Imported</th>
+                    <th className="py-2 font-medium text-right">Result</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.conflicts.map(conflict => {
+                    const keep = keepCurrent.has(conflict.word);
+                    return (
+                      <tr key={conflict.word} className="border-b border-slate-800">
+                        <td className="py-2 text-slate-200">{formatWordLabel(conflict.word)}</td>
+                        <td className="py-2">{stateLabel(conflict.current)}</td>
+                        <td className="py-2">{stateLabel(conflict.incoming)}</td>
+                        <td className="py-2 text-right">
+                          <button
+                            onClick={() => setKept(conflict.word, !keep)}
+                            className="text-xs px-2 py-1 rounded border border-slate-600 text-slate-300 hover:bg-slate-700 transition-colors"
+                          >
+                            {keep ? 'Keep yours' : 'Use imported'}
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {preview.categoryConflicts.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-slate-300">
+                {preview.categoryConflicts.length} category assignment{preview.categoryConflicts.length === 1 ? '' : 's'} will change
+              </h3>
+              <ul className="text-xs text-slate-400 space-y-1">
+                {preview.categoryConflicts.map(conflict => (
+                  <li key={`${conflict.companyName}/${conflict.word}`}>
+                    <span className="text-slate-500">{conflict.companyName}:</span> {formatWordLabel(conflict.word)}{' '}
+                    {ASSIGNMENT_CATEGORIES[conflict.current].label} → <span className="text-white">{ASSIGNMENT_CATEGORIES[conflict.incoming].label}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Cancel
+          </button>
+          <motion.button
+            onClick={() => onApply({ replaceRules: preview.rulesDiffer ? replaceRules : true, keepCurrent })}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Import
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,143 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  DEFAULT_FILTER_RULES,
+  FILTER_RULE_KINDS,
+  createFilterRule,
+  formatWordLabel,
+  previewFilterRules,
+  type FilterRule,
+  type FilterRuleAction,
+  type FilterRuleKind,
+} from '@/lib/schedule';
+
+interface FilterRulesEditorProps {
+  rules: FilterRule[];
+  onChange: (rules: FilterRule[]) => void;
+  uniqueWords: string[];
+}
+
+const PREVIEW_LIMIT = 12;
+
+export const FilterRulesEditor = ({ rules, onChange, uniqueWords }: FilterRulesEditorProps) => {
+  const previews = useMemo(() => previewFilterRules(rules, uniqueWords), [rules, uniqueWords]);
+
+  const updateRule = (index: number, patch: Partial<FilterRule>) =>
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-slate-500">
+        Rules decide every word you have not toggled by hand. They run top to bottom and the first match wins; words no rule matches are counted.
+      </p>
+
+      {previews.length === 0 && (
+        <p className="text-slate-500 text-sm text-center py-4">No rules. Every word is counted unless unchecked.</p>
+      )}
+
+      {previews.map(({ rule, matched, applied, error }, index) => (
+        <div key={rule.id} className="bg-slate-800/30 border border-slate-700 rounded-lg p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={rule.action}
+              onChange={e => updateRule(index, { action: e.target.value as FilterRuleAction })}
+              className={`bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:border-emerald-500 ${
+                rule.action === 'exclude' ? 'text-red-300' : 'text-emerald-300'
+              }`}
+            >
+              <option value="exclude">Exclude</option>
+              <option value="include">Include</option>
+            </select>
+            <select
+              value={rule.kind}
+              onChange={e => updateRule(index, { kind: e.target.value as FilterRuleKind })}
+              className="bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:outline-none focus:border-emerald-500"
+            >
+              {FILTER_RULE_KINDS.map(({ kind, label }) => (
+                <option key={kind} value={kind}>{label}</option>
+              ))}
+            </select>
+            {rule.kind !== 'numeric' && (
+              <input
+                type="text"
+                value={rule.pattern}
+                placeholder={rule.kind === 'regex' ? '^cx\\d+$' : 'e.g. CX'}
+                onChange={e => updateRule(index, { pattern: e.target.value })}
+                className="flex-1 min-w-32 bg-slate-800 border border-slate-600 rounded-lg px-3 py-1.5 text-sm text-white placeholder-slate-500 font-mono focus:outline-none focus:border-emerald-500"
+              />
+            )}
+            <div className="flex gap-1 ml-auto">
+              <button
+                onClick={() => moveRule(index, -1)}
+                disabled={index === 0}
+                className="px-2 py-1 text-xs rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30"
+                title="Move up"
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveRule(index, 1)}
+                disabled={index === rules.length - 1}
+                className="px-2 py-1 text-xs rounded text-slate-400 hover:text-white hover:bg-slate-700 disabled:opacity-30"
+                title="Move down"
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                className="px-2 py-1 text-xs rounded text-slate-400 hover:text-red-400 hover:bg-red-500/10"
+                title="Remove rule"
+              >
+                ✕
+              </button>
+            </div>
+          </div>
+
+          {error ? (
+            <p className="text-xs text-amber-400">{error}</p>
+          ) : (
+            <div className="text-xs text-slate-400">
+              <span>
+                Decides {applied.length} word{applied.length === 1 ? '' : 's'}
+                {matched.length > applied.length && ` (${matched.length - applied.length} more taken by earlier rules)`}
+              </span>
+              {applied.length > 0 && (
+                <div className="flex flex-wrap gap-1 mt-1.5">
+                  {applied.slice(0, PREVIEW_LIMIT).map(word => (
+                    <span key={word} className="px-1.5 py-0.5 rounded bg-slate-700/60 text-slate-300 font-mono">
+                      {formatWordLabel(word)}
+                    </span>
+                  ))}
+                  {applied.length > PREVIEW_LIMIT && <span className="px-1.5 py-0.5 text-slate-500">+{applied.length - PREVIEW_LIMIT} more</span>}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <button
+          onClick={() => onChange([...rules, createFilterRule()])}
+          className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+        >
+          Add Rule
+        </button>
+        <button
+          onClick={() => onChange(DEFAULT_FILTER_RULES)}
+          className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+        >
+          Reset to Defaults
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+'use client';
+
+import { presetLabel, type FileFilterOverride, type FilterPreset } from '@/lib/schedule';
+
+export type FilterSourceChoice = { kind: 'global' } | { kind: 'custom' } | { kind: 'preset'; presetId: string };
+
+interface FilterSourcePickerProps {
+  override: FileFilterOverride | undefined;
+  presets: FilterPreset[];
+  onChange: (choice: FilterSourceChoice) => void;
+}
+
+const choiceValue = (override: FileFilterOverride | undefined) =>
+  !override ? 'global' : override.kind === 'custom' ? 'custom' : `preset:${override.presetId}`;
+
+export const FilterSourcePicker = ({ override, presets, onChange }: FilterSourcePickerProps) => {
+  const handleChange = (value: string) => {
+    if (value === 'global' || value === 'custom') onChange({ kind: value });
+    else onChange({ kind: 'preset', presetId: value.slice('preset:'.length) });
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <label htmlFor="filter-source" className="text-sm text-slate-400 whitespace-nowrap">This file uses</label>
+      <select
+        id="filter-source"
+        value={choiceValue(override)}
+        onChange={e => handleChange(e.target.value)}
+        className="flex-1 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+      >
+        <option value="global">The global filters</option>
+        {presets.map(preset => (
+          <option key={preset.id} value={`preset:${preset.id}`}>Preset: {presetLabel(preset)}</option>
+        ))}
+        <option value="custom">Custom filters for this file</option>
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+'use client';
+
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatShift, formatWordLabel, type ScheduleHours, type ShiftDay, type WeekHours } from '@/lib/schedule';
+
+interface HoursTableProps {
+  hours: ScheduleHours;
+  /** Weekly hours past this are highlighted. */
+  overtimeThreshold?: number;
+}
+
+const formatHours = (hours: number) => (Number.isInteger(hours) ? String(hours) : hours.toFixed(1));
+
+const dayTitle = (day: ShiftDay) =>
+  [formatWordLabel(day.word), day.shift && formatShift(day.shift), day.hours === null && 'length unknown']
+    .filter(Boolean)
+    .join(' · ');
+
+export const HoursTable = ({ hours, overtimeThreshold = Infinity }: HoursTableProps) => {
+  const weeks = Array.from(
+    new Map(hours.drivers.flatMap(driver => driver.weeks).map(week => [week.key, week])).values()
+  ).sort((a, b) => a.key.localeCompare(b.key));
+  const weekHours = (driverWeeks: WeekHours[], key: string) => driverWeeks.find(week => week.key === key)?.hours ?? 0;
+  const unknownDays = hours.drivers.reduce((sum, driver) => sum + driver.unknownDays, 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-4 text-xs text-slate-400">
+        <span>
+          Scheduled: <span className="text-emerald-400 font-semibold">{formatHours(hours.total)} h</span>
+        </span>
+        {weeks.map(week => (
+          <span key={week.key}>
+            {week.label}: {formatHours(hours.drivers.reduce((sum, driver) => sum + weekHours(driver.weeks, week.key), 0))} h
+          </span>
+        ))}
+        {unknownDays > 0 && (
+          <span className="text-amber-400">
+            {unknownDays} counted day{unknownDays === 1 ? '' : 's'} without a shift length, left out of the totals
+          </span>
+        )}
+      </div>
+
+      <div className="max-h-[32rem] overflow-auto rounded-lg border border-slate-700/50">
+        <Table>
+          <TableHeader className="sticky top-0 bg-slate-900">
+            <TableRow className="border-slate-700 hover:bg-transparent">
+              <TableHead className="text-slate-300">Driver</TableHead>
+              {hours.dates.map(date => (
+                <TableHead key={date.column} className="text-slate-300 text-xs text-right">{date.date}</TableHead>
+              ))}
+              {weeks.map(week => (
+                <TableHead key={week.key} className="text-slate-300 text-xs text-right">{week.label}</TableHead>
+              ))}
+              <TableHead className="text-slate-300 text-right">Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {hours.drivers.map(driver => (
+              <TableRow key={driver.row} className="border-slate-700/50 hover:bg-slate-800/60">
+                <TableCell className="text-white font-medium">
+                  {driver.name || driver.driverId || <span className="text-slate-500">Row {driver.row + 1}</span>}
+                </TableCell>
+                {driver.days.map(day => (
+                  <TableCell
+                    key={day.column}
+                    className={`text-xs text-right ${day.hours === null ? 'text-amber-400' : day.hours ? 'text-emerald-300' : 'text-slate-600'}`}
+                    title={dayTitle(day)}
+                  >
+                    {day.hours === null ? '?' : day.hours ? formatHours(day.hours) : '—'}
+                  </TableCell>
+                ))}
+                {weeks.map(week => (
+                  <TableCell
+                    key={week.key}
+                    className={`text-xs text-right ${
+                      weekHours(driver.weeks, week.key) > overtimeThreshold ? 'text-red-400 font-semibold' : 'text-slate-300'
+                    }`}
+                  >
+                    {formatHours(weekHours(driver.weeks, week.key))}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right text-emerald-400 font-semibold">{formatHours(driver.total)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter className="bg-slate-900">
+            <TableRow className="border-slate-700 hover:bg-transparent">
+              <TableCell className="text-slate-300 font-medium">Per date</TableCell>
+              {hours.dates.map(date => (
+                <TableCell
+                  key={date.column}
+                  className="text-xs text-right text-slate-200"
+                  title={date.unknownDays > 0 ? `${date.unknownDays} without a shift length` : undefined}
+                >
+                  {formatHours(date.hours)}
+                  {date.unknownDays > 0 && <span className="text-amber-400">*</span>}
+                </TableCell>
+              ))}
+              {weeks.map(week => (
+                <TableCell key={week.key} />
+              ))}
+              <TableCell className="text-right text-emerald-400 font-semibold">{formatHours(hours.total)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  detectLayout,
+  extractFileInfo,
+  getDateColumns,
+  type ScheduleFile,
+  type ScheduleLayout,
+} from '@/lib/schedule';
+
+interface LayoutOverrideModalProps {
+  file: ScheduleFile;
+  onApply: (layout: ScheduleLayout) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+// Rows and columns are shown the way the spreadsheet numbers them (1-based).
+const FIELDS: { key: keyof ScheduleLayout; label: string }[] = [
+  { key: 'dateRow', label: 'Date header row' },
+  { key: 'firstDateColumn', label: 'First date column' },
+  { key: 'firstAssignmentRow', label: 'First driver row' },
+  { key: 'infoRow', label: 'Company/station row' },
+  { key: 'companyColumn', label: 'Company column' },
+  { key: 'stationColumn', label: 'Station column' },
+];
+
+export const LayoutOverrideModal = ({ file, onApply, onReset, onClose }: LayoutOverrideModalProps) => {
+  const [layout, setLayout] = useState<ScheduleLayout>(file.layoutDetection.layout);
+
+  const info = extractFileInfo(file.rawData, layout);
+  const dateColumns = getDateColumns(file.rawData, layout);
+  const detected = detectLayout(file.rawData);
+
+  const updateField = (key: keyof ScheduleLayout, value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 1) return;
+    setLayout(prev => ({ ...prev, [key]: parsed - 1 }));
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white">Sheet Layout</h2>
+          <p className="text-sm text-slate-400 mt-1">
+            Recognized as <span className="text-slate-200">{detected.label}</span>. Adjust if the counts look wrong.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          <div className="grid grid-cols-2 gap-3">
+            {FIELDS.map(({ key, label }) => (
+              <label key={key} className="text-sm text-slate-400 space-y-1">
+                <span>{label}</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={layout[key] + 1}
+                  onChange={e => updateField(key, e.target.value)}
+                  className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-emerald-500"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="bg-slate-800/30 border border-slate-700 rounded-lg p-4 text-sm space-y-1">
+            <div className="flex gap-2">
+              <span className="text-emerald-400">{info.companyName}</span>
+              <span className="text-slate-500">•</span>
+              <span className="text-cyan-400">{info.stationName}</span>
+            </div>
+            <div className="text-slate-400">
+              {dateColumns.length === 0
+                ? 'No dates found in that row.'
+                : `${dateColumns.length} dates: ${dateColumns[0].date} – ${dateColumns[dateColumns.length - 1].date}`}
+            </div>
+            <div className="text-slate-500">
+              {Math.max(file.rawData.length - layout.firstAssignmentRow, 0)} driver rows
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-between gap-2">
+          <button
+            onClick={onReset}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Use Detected Layout
+          </button>
+          <motion.button
+            onClick={() => onApply(layout)}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Apply Layout
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
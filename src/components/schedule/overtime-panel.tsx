@@ -0,0 +1,48 @@
+'use client';
+
+import type { OvertimeProjection, OvertimeSettings } from '@/lib/schedule';
+
+interface OvertimePanelProps {
+  projection: OvertimeProjection;
+  settings: OvertimeSettings;
+  onEditSettings: () => void;
+}
+
+export const OvertimePanel = ({ projection, settings, onEditSettings }: OvertimePanelProps) => (
+  <div className="bg-slate-900/50 rounded-lg p-4 border border-slate-700/50 space-y-3">
+    <div className="flex justify-between items-center gap-4 text-xs text-slate-400">
+      <span>
+        Overtime after {settings.weeklyThreshold} h a week ·{' '}
+        <span className={projection.overtimeHours > 0 ? 'text-red-400 font-semibold' : 'text-emerald-400'}>
+          {projection.overtimeHours} h projected
+        </span>
+        {projection.driversOver > 0 && ` · ${projection.driversOver} over`}
+        {projection.driversNear > 0 && ` · ${projection.driversNear} within ${settings.warningMargin} h`}
+      </span>
+      <button onClick={onEditSettings} className="text-emerald-400 hover:text-emerald-300">
+        Overtime settings
+      </button>
+    </div>
+
+    {projection.risks.length > 0 && (
+      <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {projection.risks.map(risk => (
+          <li
+            key={`${risk.row}-${risk.weekKey}`}
+            className={`flex justify-between items-center px-3 py-2 rounded-lg border text-sm ${
+              risk.level === 'over' ? 'border-red-500/40 bg-red-500/5' : 'border-amber-500/40 bg-amber-500/5'
+            }`}
+          >
+            <span className="text-white">
+              {risk.name || risk.driverId || `Row ${risk.row + 1}`}
+              <span className="text-xs text-slate-500 ml-2">{risk.weekLabel}</span>
+            </span>
+            <span className={`text-xs ${risk.level === 'over' ? 'text-red-400' : 'text-amber-400'}`}>
+              {risk.hours} h{risk.overtime > 0 && ` · +${risk.overtime} OT`}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
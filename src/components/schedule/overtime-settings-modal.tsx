@@ -0,0 +1,141 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { DEFAULT_OVERTIME_SETTINGS, formatWordLabel, type OvertimeSettings } from '@/lib/schedule';
+
+interface OvertimeSettingsModalProps {
+  settings: OvertimeSettings;
+  // Assignment labels in the open schedules that have no end time
+  labels: string[];
+  onSave: (settings: OvertimeSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-24 bg-slate-800 border border-slate-600 rounded-lg px-2 py-1.5 text-white text-sm text-center placeholder-slate-600 focus:outline-none focus:border-emerald-500';
+
+// Hours in quarter-hour steps; an empty input is null.
+const toHours = (input: string): number | null => (input === '' ? null : Math.max(Math.round(Number(input) * 4) / 4, 0));
+
+export const OvertimeSettingsModal = ({ settings, labels, onSave, onClose }: OvertimeSettingsModalProps) => {
+  const [draft, setDraft] = useState<OvertimeSettings>(settings);
+
+  const setDuration = (label: string, input: string) =>
+    setDraft(prev => {
+      const defaultDurations = { ...prev.defaultDurations };
+      const hours = toHours(input);
+      if (hours === null) delete defaultDurations[label];
+      else defaultDurations[label] = hours;
+      return { ...prev, defaultDurations };
+    });
+
+  // Labels saved earlier stay editable after their schedule is closed
+  const allLabels = Array.from(new Set([...labels, ...Object.keys(draft.defaultDurations)])).sort();
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white">Overtime Projection</h2>
+          <p className="text-sm text-slate-400 mt-1">Cells with a start and end time use their own length.</p>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto flex-1">
+          <div className="space-y-3">
+            <label className="flex justify-between items-center gap-4">
+              <span className="text-sm text-slate-200">Weekly overtime threshold (h)</span>
+              <input
+                type="number"
+                min={1}
+                value={draft.weeklyThreshold}
+                onChange={e => setDraft(prev => ({ ...prev, weeklyThreshold: toHours(e.target.value) || 1 }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex justify-between items-center gap-4">
+              <span>
+                <span className="block text-sm text-slate-200">At-risk margin (h)</span>
+                <span className="block text-xs text-slate-500">Drivers this close to the threshold are listed too</span>
+              </span>
+              <input
+                type="number"
+                min={0}
+                value={draft.warningMargin}
+                onChange={e => setDraft(prev => ({ ...prev, warningMargin: toHours(e.target.value) ?? 0 }))}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex justify-between items-center gap-4">
+              <span>
+                <span className="block text-sm text-slate-200">Any other assignment (h)</span>
+                <span className="block text-xs text-slate-500">Empty leaves those days out of the hours</span>
+              </span>
+              <input
+                type="number"
+                min={0}
+                step={0.25}
+                value={draft.fallbackDuration ?? ''}
+                onChange={e => setDraft(prev => ({ ...prev, fallbackDuration: toHours(e.target.value) }))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium text-slate-300">Default length per assignment</h3>
+            {allLabels.length === 0 ? (
+              <p className="text-xs text-slate-500">Every counted cell in the open schedules has an end time.</p>
+            ) : (
+              allLabels.map(label => (
+                <label key={label} className="flex justify-between items-center gap-4">
+                  <span className={`text-sm ${labels.includes(label) ? 'text-slate-300' : 'text-slate-500'}`}>
+                    {formatWordLabel(label)}
+                  </span>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.25}
+                    value={draft.defaultDurations[label] ?? ''}
+                    placeholder={draft.fallbackDuration === null ? '—' : String(draft.fallbackDuration)}
+                    onChange={e => setDuration(label, e.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+              ))
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-between gap-2">
+          <button
+            onClick={() => setDraft(DEFAULT_OVERTIME_SETTINGS)}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Reset
+          </button>
+          <motion.button
+            onClick={() => onSave(draft)}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Save Settings
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,38 @@
+'use client';
+
+import { presetLabel, type FilterPreset } from '@/lib/schedule';
+
+interface PresetPickerProps {
+  presets: FilterPreset[];
+  activePresetId: string | null;
+  onSelect: (id: string | null) => void;
+  onDelete: (id: string) => void;
+}
+
+export const PresetPicker = ({ presets, activePresetId, onSelect, onDelete }: PresetPickerProps) => (
+  <div className="flex items-center gap-2">
+    <label htmlFor="filter-preset" className="text-sm text-slate-400">Preset</label>
+    <select
+      id="filter-preset"
+      value={activePresetId ?? ''}
+      onChange={e => onSelect(e.target.value || null)}
+      className="bg-slate-800 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+    >
+      <option value="">Custom</option>
+      {presets.map(preset => (
+        <option key={preset.id} value={preset.id}>{presetLabel(preset)}</option>
+      ))}
+    </select>
+    {activePresetId && (
+      <button
+        onClick={() => onDelete(activePresetId)}
+        className="p-2 rounded-lg text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+        title="Delete preset"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+        </svg>
+      </button>
+    )}
+  </div>
+);
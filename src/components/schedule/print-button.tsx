@@ -0,0 +1,10 @@
+'use client';
+
+export const PrintButton = () => (
+  <button
+    onClick={() => window.print()}
+    className="px-4 py-2 rounded-lg bg-slate-900 text-white text-sm hover:bg-slate-700 transition-colors print:hidden"
+  >
+    Print / Save as PDF
+  </button>
+);
@@ -0,0 +1,138 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatWordLabel, type ComplianceViolation, type DateColumn, type RosterDriver } from '@/lib/schedule';
+
+type SortKey = 'name' | 'driverId' | 'shiftsWorked' | 'daysOff' | number;
+
+interface RosterTableProps {
+  drivers: RosterDriver[];
+  dateColumns: DateColumn[];
+  /** Driver row -> fatigue violations; flagged cells and drivers are outlined. */
+  compliance?: Map<number, ComplianceViolation[]>;
+}
+
+const sortValue = (driver: RosterDriver, key: SortKey): string | number => {
+  if (typeof key === 'number') return driver.assignments.find(a => a.column === key)?.word ?? '';
+  return driver[key];
+};
+
+const compare = (a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+
+const breakdown = (driver: RosterDriver) =>
+  Object.entries(driver.byAssignment)
+    .sort(([, a], [, b]) => b - a)
+    .map(([word, days]) => `${formatWordLabel(word)} ×${days}`)
+    .join(', ');
+
+export const RosterTable = ({ drivers, dateColumns, compliance }: RosterTableProps) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'name', descending: false });
+
+  const rows = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    const matching = term
+      ? drivers.filter(driver =>
+          [driver.name, driver.driverId, ...driver.assignments.map(a => a.word)].some(value =>
+            value.toLowerCase().includes(term)
+          )
+        )
+      : drivers;
+
+    const sorted = [...matching].sort((a, b) => compare(sortValue(a, sort.key), sortValue(b, sort.key)));
+    return sort.descending ? sorted.reverse() : sorted;
+  }, [drivers, searchTerm, sort]);
+
+  const toggleSort = (key: SortKey) =>
+    setSort(prev => ({ key, descending: prev.key === key ? !prev.descending : false }));
+
+  const header = (key: SortKey, label: string, className = '') => (
+    <TableHead className={`text-slate-300 cursor-pointer select-none hover:text-white ${className}`} onClick={() => toggleSort(key)}>
+      {label}
+      {sort.key === key && <span className="ml-1 text-emerald-400">{sort.descending ? '▼' : '▲'}</span>}
+    </TableHead>
+  );
+
+  return (
+    <div className="space-y-3">
+      <input
+        type="text"
+        placeholder="Search drivers or assignments..."
+        value={searchTerm}
+        onChange={e => setSearchTerm(e.target.value)}
+        className="w-full bg-slate-800 border border-slate-600 rounded-lg px-4 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 text-sm"
+      />
+
+      <div className="max-h-[32rem] overflow-auto rounded-lg border border-slate-700/50">
+        <Table>
+          <TableHeader className="sticky top-0 bg-slate-900">
+            <TableRow className="border-slate-700 hover:bg-transparent">
+              {header('name', 'Driver')}
+              {header('driverId', 'ID')}
+              {dateColumns.map(({ column, date }) => header(column, date, 'text-xs'))}
+              {header('shiftsWorked', 'Shifts', 'text-right')}
+              {header('daysOff', 'Off', 'text-right')}
+              <TableHead className="text-slate-300">Breakdown</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 ? (
+              <TableRow className="border-slate-700/50 hover:bg-transparent">
+                <TableCell colSpan={dateColumns.length + 5} className="text-center text-slate-500 py-6">
+                  No drivers match search.
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map(driver => {
+                const violations = compliance?.get(driver.row) ?? [];
+                return (
+                  <TableRow key={driver.row} className="border-slate-700/50 hover:bg-slate-800/60">
+                    <TableCell className="text-white font-medium">
+                      {driver.name || <span className="text-slate-500">Row {driver.row + 1}</span>}
+                      {violations.length > 0 && (
+                        <span
+                          className="ml-2 px-1.5 py-0.5 rounded bg-red-500/20 text-red-300 text-xs font-normal"
+                          title={violations.map(violation => violation.message).join('\n')}
+                        >
+                          {violations.length} limit{violations.length === 1 ? '' : 's'}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-slate-400">{driver.driverId}</TableCell>
+                    {driver.assignments.map(assignment => {
+                      const flagged = violations.filter(violation => violation.columns.includes(assignment.column));
+                      const tone = flagged.length > 0 ? 'bg-red-500/15 text-red-200' : assignment.counted ? 'text-emerald-300' : 'text-slate-500';
+                      return (
+                        <TableCell
+                          key={assignment.column}
+                          className={`text-xs ${tone}`}
+                          title={flagged.map(violation => violation.message).join('\n') || undefined}
+                        >
+                          {formatWordLabel(assignment.word)}
+                        </TableCell>
+                      );
+                    })}
+                    <TableCell className="text-right text-emerald-400 font-semibold">{driver.shiftsWorked}</TableCell>
+                    <TableCell className="text-right text-slate-400">{driver.daysOff}</TableCell>
+                    <TableCell className="text-xs text-slate-400">{breakdown(driver)}</TableCell>
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
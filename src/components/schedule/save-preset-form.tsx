@@ -0,0 +1,53 @@
+'use client';
+
+import { useState } from 'react';
+import type { FileInfo, FilterPreset } from '@/lib/schedule';
+
+interface SavePresetFormProps {
+  stations: FileInfo[];
+  activePreset: FilterPreset | null;
+  onSave: (name: string, scope: FileInfo | null, presetId: string | null) => void;
+}
+
+const scopeKey = (scope: FileInfo | null) => (scope ? `${scope.companyName}\u0000${scope.stationName}` : '');
+
+export const SavePresetForm = ({ stations, activePreset, onSave }: SavePresetFormProps) => {
+  const [name, setName] = useState(activePreset?.name ?? '');
+  const [scope, setScope] = useState(scopeKey(activePreset?.scope ?? null));
+
+  const selectedScope = stations.find(station => scopeKey(station) === scope) ?? activePreset?.scope ?? null;
+  const trimmed = name.trim();
+  // Saving under the active preset's name updates it; a new name creates another preset
+  const overwrites = activePreset !== null && trimmed === activePreset.name;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="text"
+        placeholder="Preset name, e.g. Standard delivery count"
+        value={name}
+        onChange={e => setName(e.target.value)}
+        className="flex-1 min-w-48 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 text-sm"
+      />
+      <select
+        value={scope}
+        onChange={e => setScope(e.target.value)}
+        className="bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+      >
+        <option value="">All stations</option>
+        {stations.map(station => (
+          <option key={scopeKey(station)} value={scopeKey(station)}>
+            {station.stationName} ({station.companyName})
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={() => onSave(trimmed, scope ? selectedScope : null, overwrites ? activePreset.id : null)}
+        disabled={!trimmed}
+        className="text-sm px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-200 transition-colors disabled:opacity-50 whitespace-nowrap"
+      >
+        {overwrites ? 'Update Preset' : 'Save as Preset'}
+      </button>
+    </div>
+  );
+};
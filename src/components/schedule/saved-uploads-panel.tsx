@@ -0,0 +1,117 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { formatDate, type ScheduleUploadSummary } from '@/lib/schedule';
+
+interface SavedUploadsPanelProps {
+  uploads: ScheduleUploadSummary[];
+  openIds: string[];
+  onOpen: (id: string) => void;
+  onCompare: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const dateRange = (upload: ScheduleUploadSummary) => {
+  if (!upload.startDate) return 'No dates';
+  const start = formatDate(new Date(upload.startDate));
+  const end = formatDate(new Date(upload.endDate ?? upload.startDate));
+  return start === end ? start : `${start} – ${end}`;
+};
+
+const stationKey = (upload: ScheduleUploadSummary) => `${upload.companyName}/${upload.stationName}`;
+
+export const SavedUploadsPanel = ({ uploads, openIds, onOpen, onCompare, onDelete }: SavedUploadsPanelProps) => {
+  const [expanded, setExpanded] = useState(false);
+  // Deleting drops the upload with all its drivers and cannot be undone, so it takes a second click
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const perStation = uploads.reduce<Record<string, number>>((acc, upload) => {
+    acc[stationKey(upload)] = (acc[stationKey(upload)] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  if (uploads.length === 0) return null;
+
+  return (
+    <motion.div
+      className="bg-slate-800/40 rounded-2xl border border-slate-700/50 mb-8"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+    >
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="w-full flex justify-between items-center p-4 text-sm text-slate-300 hover:text-white"
+      >
+        <span>Saved Schedules ({uploads.length})</span>
+        <span className="text-slate-500">{expanded ? 'Hide' : 'Show'}</span>
+      </button>
+
+      {expanded && (
+        <ul className="border-t border-slate-700/50 divide-y divide-slate-700/50 max-h-80 overflow-y-auto">
+          {uploads.map(upload => {
+            const isOpen = openIds.includes(upload.id);
+            return (
+              <li key={upload.id} className="flex items-center justify-between gap-4 px-4 py-3">
+                <div className="min-w-0">
+                  <div className="text-sm text-white truncate">
+                    {upload.fileName}
+                    {upload.sheetName && <span className="text-slate-400"> › {upload.sheetName}</span>}
+                  </div>
+                  <div className="text-xs text-slate-400">
+                    <span className="text-emerald-400">{upload.companyName}</span> •{' '}
+                    <span className="text-cyan-400">{upload.stationName}</span> • {dateRange(upload)} •{' '}
+                    {upload.driverCount} drivers • saved {formatDate(new Date(upload.uploadedAt))}
+                  </div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => onOpen(upload.id)}
+                    disabled={isOpen}
+                    className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors disabled:opacity-50"
+                  >
+                    {isOpen ? 'Opened' : 'Open'}
+                  </button>
+                  {perStation[stationKey(upload)] > 1 && (
+                    <button
+                      onClick={() => onCompare(upload.id)}
+                      className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+                    >
+                      Compare
+                    </button>
+                  )}
+                  {confirmingId === upload.id ? (
+                    <>
+                      <button
+                        onClick={() => {
+                          setConfirmingId(null);
+                          onDelete(upload.id);
+                        }}
+                        className="text-xs px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 rounded text-red-300 transition-colors"
+                      >
+                        Delete for good
+                      </button>
+                      <button
+                        onClick={() => setConfirmingId(null)}
+                        className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    </>
+                  ) : (
+                    <button
+                      onClick={() => setConfirmingId(upload.id)}
+                      className="text-xs px-3 py-1.5 rounded text-slate-400 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </motion.div>
+  );
+};
@@ -0,0 +1,303 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  DndContext,
+  DragOverlay,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+  type DragStartEvent,
+} from '@dnd-kit/core';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  BLANK_WORD,
+  clearScheduleCell,
+  countEditedCells,
+  driverLabel,
+  moveScheduleCell,
+  pushEdit,
+  redoEdit,
+  setScheduleCell,
+  undoEdit,
+  type CellAddress,
+  type DateColumn,
+  type EditHistory,
+  type RosterAssignment,
+  type RosterDriver,
+  type ScheduleMatrix,
+} from '@/lib/schedule';
+
+interface ScheduleEditorProps {
+  history: EditHistory;
+  // The last saved version; cells that differ from it are outlined
+  baseline: ScheduleMatrix;
+  drivers: RosterDriver[];
+  dateColumns: DateColumn[];
+  saving: boolean;
+  onChange: (history: EditHistory) => void;
+  onSaveVersion: () => void;
+}
+
+const cellId = ({ row, column }: CellAddress) => `${row}:${column}`;
+
+interface EditorCellProps {
+  address: CellAddress;
+  assignment: RosterAssignment;
+  edited: boolean;
+  selected: boolean;
+  // Text to start the inline editor with, or null when the cell isn't being typed in
+  editText: string | null;
+  onSelect: () => void;
+  onStartEdit: () => void;
+  // Enter and Escape hand focus back to the grid; clicking away doesn't
+  onCommit: (text: string, refocus: boolean) => void;
+  onCancel: () => void;
+}
+
+const EditorCell = ({ address, assignment, edited, selected, editText, onSelect, onStartEdit, onCommit, onCancel }: EditorCellProps) => {
+  const blank = assignment.word === BLANK_WORD;
+  const id = cellId(address);
+  const { setNodeRef: setDragRef, listeners, attributes, isDragging } = useDraggable({
+    id,
+    data: address,
+    disabled: blank || editText !== null,
+  });
+  const { setNodeRef: setDropRef, isOver } = useDroppable({ id, data: address });
+  // Enter and Escape unmount the input, which must not commit it a second time on blur
+  const closed = useRef(false);
+
+  const tone = isOver
+    ? 'bg-emerald-500/20'
+    : selected
+      ? 'bg-slate-700/60'
+      : edited
+        ? 'bg-amber-500/10'
+        : '';
+  const text = assignment.counted ? 'text-emerald-300' : 'text-slate-400';
+
+  return (
+    <TableCell
+      ref={setDropRef}
+      className={`p-0 text-xs ${tone} ${selected ? 'ring-1 ring-inset ring-emerald-500' : edited ? 'ring-1 ring-inset ring-amber-500/50' : ''}`}
+      onClick={onSelect}
+      onDoubleClick={onStartEdit}
+    >
+      {editText !== null ? (
+        <input
+          autoFocus
+          defaultValue={editText}
+          onFocus={e => {
+            closed.current = false;
+            // Typing over a cell continues after the first key
+            e.currentTarget.setSelectionRange(editText.length, editText.length);
+          }}
+          onBlur={e => {
+            if (!closed.current) onCommit(e.target.value, false);
+          }}
+          onKeyDown={e => {
+            e.stopPropagation();
+            if (e.key !== 'Enter' && e.key !== 'Escape') return;
+            closed.current = true;
+            if (e.key === 'Enter') onCommit(e.currentTarget.value, true);
+            else onCancel();
+          }}
+          className="w-full min-w-[5rem] bg-slate-800 px-2 py-1.5 text-white text-xs focus:outline-none"
+        />
+      ) : (
+        <div
+          ref={setDragRef}
+          {...listeners}
+          {...attributes}
+          tabIndex={-1}
+          className={`px-2 py-1.5 min-w-[5rem] ${blank ? '' : 'cursor-grab'} ${isDragging ? 'opacity-30' : text}`}
+        >
+          {blank ? <span className="text-slate-700">—</span> : assignment.word}
+        </div>
+      )}
+    </TableCell>
+  );
+};
+
+export const ScheduleEditor = ({ history, baseline, drivers, dateColumns, saving, onChange, onSaveVersion }: ScheduleEditorProps) => {
+  const [selected, setSelected] = useState<CellAddress | null>(null);
+  const [editing, setEditing] = useState<{ cell: CellAddress; text: string } | null>(null);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  // A small move before a drag starts, so clicks still select and double-clicks still edit
+  const sensors = useSensors(useSensor(PointerSensor, { activationConstraint: { distance: 4 } }));
+
+  const data = history.present;
+  const cells = drivers.flatMap(driver => dateColumns.map(({ column }) => ({ row: driver.row, column })));
+  const editedCount = countEditedCells(baseline, data, cells);
+  const isEdited = (cell: CellAddress) => countEditedCells(baseline, data, [cell]) > 0;
+  const isSelected = (cell: CellAddress) => selected?.row === cell.row && selected.column === cell.column;
+
+  const apply = (next: ScheduleMatrix) => onChange(pushEdit(history, next));
+
+  const commit = (cell: CellAddress, text: string, refocus: boolean) => {
+    setEditing(null);
+    apply(setScheduleCell(data, cell, text));
+    if (refocus) gridRef.current?.focus();
+  };
+
+  const cancel = () => {
+    setEditing(null);
+    gridRef.current?.focus();
+  };
+
+  const handleDragStart = ({ active }: DragStartEvent) => {
+    const { row, column } = active.data.current as CellAddress;
+    setDragging(String(data[row]?.[column] ?? ''));
+  };
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    setDragging(null);
+    if (!over) return;
+    const to = over.data.current as CellAddress;
+    apply(moveScheduleCell(data, active.data.current as CellAddress, to));
+    setSelected(to);
+  };
+
+  // Undo/redo and the cell shortcuts only apply while the grid has focus
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const mod = e.ctrlKey || e.metaKey;
+    if (mod && e.key.toLowerCase() === 'z') {
+      e.preventDefault();
+      onChange(e.shiftKey ? redoEdit(history) : undoEdit(history));
+    } else if (mod && e.key.toLowerCase() === 'y') {
+      e.preventDefault();
+      onChange(redoEdit(history));
+    } else if (selected && !editing) {
+      if (e.key === 'Delete' || e.key === 'Backspace') {
+        e.preventDefault();
+        apply(clearScheduleCell(data, selected));
+      } else if (e.key === 'Enter' || e.key === 'F2') {
+        e.preventDefault();
+        setEditing({ cell: selected, text: String(data[selected.row]?.[selected.column] ?? '') });
+      } else if (e.key.length === 1 && !mod && !e.altKey) {
+        // Typing over a cell replaces it, the way a spreadsheet does
+        e.preventDefault();
+        setEditing({ cell: selected, text: e.key });
+      }
+    }
+  };
+
+  const counted = (column: number) =>
+    drivers.filter(driver => driver.assignments.find(a => a.column === column)?.counted).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-4 text-xs text-slate-400">
+        <span>
+          Drag an assignment onto another driver or day to move it (onto a filled cell to swap). Type or double-click to edit,
+          Delete to clear.
+          {editedCount > 0 && (
+            <span className="ml-2 px-2 py-0.5 rounded border border-amber-500/40 text-amber-400">
+              {editedCount} cell{editedCount === 1 ? '' : 's'} changed
+            </span>
+          )}
+        </span>
+        <div className="flex gap-2">
+          <div className="flex gap-1 bg-slate-900/50 rounded-lg p-1">
+            <button
+              onClick={() => onChange(undoEdit(history))}
+              disabled={history.past.length === 0}
+              className="text-xs px-3 py-1 rounded text-slate-400 hover:text-white transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+              title="Undo (Ctrl+Z)"
+            >
+              Undo
+            </button>
+            <button
+              onClick={() => onChange(redoEdit(history))}
+              disabled={history.future.length === 0}
+              className="text-xs px-3 py-1 rounded text-slate-400 hover:text-white transition-colors disabled:opacity-40 disabled:hover:text-slate-400"
+              title="Redo (Ctrl+Y)"
+            >
+              Redo
+            </button>
+          </div>
+          <motion.button
+            onClick={onSaveVersion}
+            disabled={editedCount === 0 || saving}
+            className="px-4 py-1.5 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white text-xs font-semibold shadow-lg disabled:opacity-50"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            {saving ? 'Saving…' : 'Save as New Version'}
+          </motion.button>
+        </div>
+      </div>
+
+      <DndContext sensors={sensors} onDragStart={handleDragStart} onDragEnd={handleDragEnd} onDragCancel={() => setDragging(null)}>
+        <div
+          ref={gridRef}
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+          className="max-h-[32rem] overflow-auto rounded-lg border border-slate-700/50 focus:outline-none focus:border-emerald-500/50"
+        >
+          <Table>
+            <TableHeader className="sticky top-0 z-10 bg-slate-900">
+              <TableRow className="border-slate-700 hover:bg-transparent">
+                <TableHead className="text-slate-300">Driver</TableHead>
+                {dateColumns.map(({ column, date }) => (
+                  <TableHead key={column} className="text-slate-300 text-xs">{date}</TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drivers.map(driver => (
+                <TableRow key={driver.row} className="border-slate-700/50 hover:bg-slate-800/60">
+                  <TableCell className="text-white font-medium">{driverLabel(driver)}</TableCell>
+                  {driver.assignments.map(assignment => {
+                    const address = { row: driver.row, column: assignment.column };
+                    const editingHere = editing?.cell.row === driver.row && editing.cell.column === assignment.column;
+                    return (
+                      <EditorCell
+                        key={assignment.column}
+                        address={address}
+                        assignment={assignment}
+                        edited={isEdited(address)}
+                        selected={isSelected(address)}
+                        editText={editingHere ? editing.text : null}
+                        onSelect={() => setSelected(address)}
+                        onStartEdit={() => setEditing({ cell: address, text: String(data[driver.row]?.[assignment.column] ?? '') })}
+                        onCommit={(text, refocus) => commit(address, text, refocus)}
+                        onCancel={cancel}
+                      />
+                    );
+                  })}
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter className="bg-slate-900">
+              <TableRow className="border-slate-700 hover:bg-transparent">
+                <TableCell className="text-slate-300 font-medium">Valid count</TableCell>
+                {dateColumns.map(({ column }) => (
+                  <TableCell key={column} className="text-xs text-emerald-400 font-semibold">{counted(column)}</TableCell>
+                ))}
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </div>
+        <DragOverlay>
+          {dragging !== null && (
+            <div className="px-2 py-1.5 rounded bg-slate-700 border border-emerald-500 text-xs text-white shadow-lg">{dragging}</div>
+          )}
+        </DragOverlay>
+      </DndContext>
+    </div>
+  );
+};
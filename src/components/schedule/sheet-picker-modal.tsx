@@ -0,0 +1,126 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  groupSheetsByDates,
+  hasScheduleData,
+  mergeScheduleSheets,
+  previewScheduleSheet,
+  type ScheduleSheet,
+} from '@/lib/schedule';
+import { CheckboxItem } from './checkbox-item';
+
+export interface PendingWorkbook {
+  id: string;
+  fileName: string;
+  sheets: ScheduleSheet[];
+}
+
+interface SheetPickerModalProps {
+  workbook: PendingWorkbook;
+  onConfirm: (sheets: ScheduleSheet[]) => void;
+  onCancel: () => void;
+}
+
+const describeSheet = (sheet: ScheduleSheet) => {
+  const preview = previewScheduleSheet(sheet);
+  if (preview.dateCount === 0) return 'No date header found';
+  const range = preview.firstDate === preview.lastDate ? preview.firstDate : `${preview.firstDate} – ${preview.lastDate}`;
+  return `${preview.companyName} • ${preview.stationName} • ${range} • ${preview.driverRowCount} rows • ${preview.layoutLabel}`;
+};
+
+export const SheetPickerModal = ({ workbook, onConfirm, onCancel }: SheetPickerModalProps) => {
+  // Sheets with dates are selected up front; empty tabs (notes, pivots) are not.
+  const [selected, setSelected] = useState<Set<string>>(
+    () => new Set(workbook.sheets.filter(hasScheduleData).map(sheet => sheet.name))
+  );
+  const [mergeMatching, setMergeMatching] = useState(false);
+
+  const selectedSheets = workbook.sheets.filter(sheet => selected.has(sheet.name));
+  const groups = groupSheetsByDates(selectedSheets);
+  const canMerge = groups.some(group => group.length > 1);
+
+  const toggleSheet = (name: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  const handleConfirm = () => {
+    if (mergeMatching && canMerge) {
+      onConfirm(groups.map(group => (group.length > 1 ? mergeScheduleSheets(group) : group[0])));
+    } else {
+      onConfirm(selectedSheets);
+    }
+  };
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onCancel}
+    >
+      <motion.div
+        className="w-full max-w-2xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50">
+          <h2 className="text-xl font-bold text-white">Select Sheets</h2>
+          <p className="text-sm text-slate-400 mt-1">
+            {workbook.fileName} has {workbook.sheets.length} sheets. Pick the ones to ingest.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          <div className="space-y-1">
+            {workbook.sheets.map(sheet => (
+              <CheckboxItem
+                key={sheet.name}
+                label={sheet.name}
+                description={describeSheet(sheet)}
+                checked={selected.has(sheet.name)}
+                onChange={() => toggleSheet(sheet.name)}
+              />
+            ))}
+          </div>
+
+          {canMerge && (
+            <CheckboxItem
+              label="Merge sheets with matching dates"
+              description="Sheets whose date columns line up are combined into one card."
+              checked={mergeMatching}
+              onChange={() => setMergeMatching(prev => !prev)}
+            />
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Skip File
+          </button>
+          <motion.button
+            onClick={handleConfirm}
+            disabled={selectedSheets.length === 0}
+            className="px-6 py-2 bg-gradient-to-r from-emerald-600 to-cyan-600 rounded-lg text-white font-semibold shadow-lg disabled:opacity-50"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+          >
+            Add {selectedSheets.length} Sheet{selectedSheets.length === 1 ? '' : 's'}
+          </motion.button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
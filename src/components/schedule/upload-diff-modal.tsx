@@ -0,0 +1,233 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  diffSchedules,
+  extractUniqueWords,
+  formatDate,
+  formatWordLabel,
+  type CellDiff,
+  type DriverDiffStatus,
+  type ScheduleUploadRecord,
+  type ScheduleUploadSummary,
+  type WordFilterState,
+} from '@/lib/schedule';
+import { toast } from '@/hooks/use-toast';
+import { fetchScheduleUpload } from '@/lib/schedule-api';
+
+interface UploadDiffModalProps {
+  // Uploads of one station, newest first
+  uploads: ScheduleUploadSummary[];
+  initialAfterId: string;
+  // Effective filter for the words of both uploads, so deltas match the cards
+  filterStateFor: (words: string[]) => WordFilterState;
+  onClose: () => void;
+}
+
+const uploadLabel = (upload: ScheduleUploadSummary) =>
+  `${upload.fileName}${upload.sheetName ? ` › ${upload.sheetName}` : ''} — saved ${formatDate(new Date(upload.uploadedAt))}`;
+
+const ROW_CLASS: Record<DriverDiffStatus, string> = {
+  added: 'bg-emerald-500/10 text-emerald-300',
+  removed: 'bg-red-500/10 text-red-300 line-through',
+  changed: 'text-slate-200',
+  unchanged: 'text-slate-400',
+};
+
+const cellText = (word: string | undefined) => (word === undefined ? '' : formatWordLabel(word));
+
+const DiffCell = ({ cell }: { cell: CellDiff }) => {
+  if (!cell.changed) {
+    return <td className="px-2 py-1.5 whitespace-nowrap">{cellText(cell.after ?? cell.before)}</td>;
+  }
+  return (
+    <td
+      className="px-2 py-1.5 whitespace-nowrap bg-amber-500/20 text-amber-200"
+      title={`${cellText(cell.before)} → ${cellText(cell.after)}`}
+    >
+      <span className="line-through text-amber-200/50 mr-1">{cellText(cell.before)}</span>
+      {cellText(cell.after)}
+    </td>
+  );
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+export const UploadDiffModal = ({ uploads, initialAfterId, filterStateFor, onClose }: UploadDiffModalProps) => {
+  const initialIndex = uploads.findIndex(upload => upload.id === initialAfterId);
+  const [afterId, setAfterId] = useState(initialAfterId);
+  const [beforeId, setBeforeId] = useState(
+    (uploads[initialIndex + 1] ?? uploads.find(upload => upload.id !== initialAfterId))?.id ?? initialAfterId
+  );
+  const [records, setRecords] = useState<Record<string, ScheduleUploadRecord>>({});
+  const [onlyChanges, setOnlyChanges] = useState(true);
+
+  useEffect(() => {
+    const missing = [beforeId, afterId].filter(id => !records[id]);
+    if (missing.length === 0) return;
+    let cancelled = false;
+    Promise.all(missing.map(fetchScheduleUpload))
+      .then(loaded => {
+        if (cancelled) return;
+        setRecords(prev => ({ ...prev, ...Object.fromEntries(loaded.map(record => [record.id, record])) }));
+      })
+      .catch(error => {
+        console.error('Error loading saved schedules:', error);
+        toast({ variant: 'destructive', title: 'Could not load saved schedules' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeId, afterId, records]);
+
+  const before = records[beforeId];
+  const after = records[afterId];
+  const diff = useMemo(() => {
+    if (!before || !after) return null;
+    const words = Array.from(
+      new Set([
+        ...extractUniqueWords(before.rawData, before.layoutDetection.layout),
+        ...extractUniqueWords(after.rawData, after.layoutDetection.layout),
+      ])
+    );
+    return diffSchedules(
+      { rawData: before.rawData, layout: before.layoutDetection.layout },
+      { rawData: after.rawData, layout: after.layoutDetection.layout },
+      filterStateFor(words)
+    );
+  }, [before, after, filterStateFor]);
+
+  const drivers = diff ? diff.drivers.filter(driver => !onlyChanges || driver.status !== 'unchanged') : [];
+  const netDelta = diff ? diff.dates.reduce((sum, date) => sum + date.delta, 0) : 0;
+
+  const uploadSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="w-full bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500"
+    >
+      {uploads.map(upload => (
+        <option key={upload.id} value={upload.id}>
+          {uploadLabel(upload)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        className="w-full max-w-6xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl overflow-hidden max-h-[90vh] flex flex-col"
+        initial={{ scale: 0.9, y: 20 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 20 }}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-6 border-b border-slate-700 bg-slate-800/50 space-y-4">
+          <div>
+            <h2 className="text-xl font-bold text-white">Compare Schedules</h2>
+            <p className="text-sm text-slate-400 mt-1">
+              {uploads[0].companyName} • {uploads[0].stationName}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="space-y-1 text-xs text-slate-400">
+              <span>Before</span>
+              {uploadSelect(beforeId, setBeforeId)}
+            </label>
+            <label className="space-y-1 text-xs text-slate-400">
+              <span>After</span>
+              {uploadSelect(afterId, setAfterId)}
+            </label>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto flex-1">
+          {!diff ? (
+            <p className="text-sm text-slate-400">Loading…</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="px-2 py-1 rounded bg-amber-500/20 text-amber-300">{diff.changedCells} changed cells</span>
+                <span className="px-2 py-1 rounded bg-emerald-500/20 text-emerald-300">{diff.addedDrivers} drivers added</span>
+                <span className="px-2 py-1 rounded bg-red-500/20 text-red-300">{diff.removedDrivers} drivers removed</span>
+                <span className="px-2 py-1 rounded bg-slate-700 text-slate-300">Net count {formatDelta(netDelta)}</span>
+                <label className="ml-auto flex items-center gap-2 text-slate-400 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={onlyChanges}
+                    onChange={e => setOnlyChanges(e.target.checked)}
+                    className="accent-emerald-500"
+                  />
+                  Only drivers with changes
+                </label>
+              </div>
+
+              <div className="overflow-x-auto border border-slate-700 rounded-lg">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-slate-400 border-b border-slate-700 bg-slate-800/50">
+                      <th className="px-2 py-2 font-medium sticky left-0 bg-slate-800">Driver</th>
+                      {diff.dates.map(date => (
+                        <th key={date.key} className="px-2 py-2 font-medium whitespace-nowrap">{date.label}</th>
+                      ))}
+                    </tr>
+                    <tr className="text-slate-300 border-b border-slate-700">
+                      <td className="px-2 py-1.5 sticky left-0 bg-slate-900">Count</td>
+                      {diff.dates.map(date => (
+                        <td
+                          key={date.key}
+                          className="px-2 py-1.5 whitespace-nowrap"
+                          title={`${date.before ?? '—'} → ${date.after ?? '—'}`}
+                        >
+                          {date.after ?? '—'}
+                          {date.delta !== 0 && (
+                            <span className={`ml-1 font-semibold ${date.delta > 0 ? 'text-emerald-400' : 'text-red-400'}`}>
+                              ({formatDelta(date.delta)})
+                            </span>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drivers.map(driver => (
+                      <tr key={driver.key} className={`border-b border-slate-800 ${ROW_CLASS[driver.status]}`}>
+                        <td className="px-2 py-1.5 whitespace-nowrap sticky left-0 bg-slate-900">
+                          {driver.label}
+                          {driver.driverId && <span className="text-slate-500 ml-1">#{driver.driverId}</span>}
+                        </td>
+                        {diff.dates.map(date => (
+                          <DiffCell key={date.key} cell={driver.cells[date.key]} />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {drivers.length === 0 && (
+                  <p className="p-4 text-sm text-slate-400 text-center">No driver assignments changed.</p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 rounded-lg text-slate-300 text-sm transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
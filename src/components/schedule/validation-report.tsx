@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import type { ValidationFinding } from '@/lib/schedule';
+
+interface ValidationReportProps {
+  findings: ValidationFinding[];
+  reviewed: boolean;
+  onReviewed: () => void;
+}
+
+const SEVERITY_CLASS = {
+  error: 'bg-red-500/10 border-red-500/30 text-red-300',
+  warning: 'bg-amber-500/10 border-amber-500/30 text-amber-300',
+};
+
+const COLLAPSED_LIMIT = 5;
+
+export const ValidationReport = ({ findings, reviewed, onReviewed }: ValidationReportProps) => {
+  const [expanded, setExpanded] = useState(false);
+
+  const errorCount = findings.filter(f => f.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+  const visible = expanded ? findings : findings.slice(0, COLLAPSED_LIMIT);
+
+  return (
+    <div className="border-t border-slate-700/50 p-5 space-y-3">
+      <div className="flex justify-between items-center gap-4">
+        <h4 className="text-sm font-medium text-slate-400">
+          Validation:{' '}
+          {errorCount > 0 && <span className="text-red-400">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+          {errorCount > 0 && warningCount > 0 && ', '}
+          {warningCount > 0 && <span className="text-amber-400">{warningCount} warning{warningCount === 1 ? '' : 's'}</span>}
+        </h4>
+        {!reviewed && (
+          <button
+            onClick={onReviewed}
+            className="text-xs px-3 py-1.5 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 transition-colors whitespace-nowrap"
+          >
+            Mark Reviewed
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {visible.map((finding, idx) => (
+          <li
+            key={`${finding.code}-${finding.cell ?? idx}`}
+            className={`flex gap-3 items-baseline px-3 py-2 rounded-lg border text-sm ${SEVERITY_CLASS[finding.severity]}`}
+          >
+            <span className="font-mono text-xs w-12 flex-shrink-0 text-slate-300">{finding.cell ?? '—'}</span>
+            <span>{finding.message}</span>
+          </li>
+        ))}
+      </ul>
+
+      {findings.length > COLLAPSED_LIMIT && (
+        <button onClick={() => setExpanded(prev => !prev)} className="text-xs text-slate-400 hover:text-white">
+          {expanded ? 'Show less' : `Show all ${findings.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
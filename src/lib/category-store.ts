@@ -0,0 +1,29 @@
+import { db } from '@/lib/db';
+import type { CategoryMapping, CategoryMappingsByCompany } from '@/lib/schedule';
+
+// Companies that never saved a mapping are left out; their words use the guessed categories.
+export const listCategoryMappings = async (): Promise<CategoryMappingsByCompany> => {
+  const companies = await db.company.findMany({
+    where: { categoryMapping: { not: null } },
+    select: { name: true, categoryMapping: true },
+  });
+  return Object.fromEntries(companies.map(company => [company.name, JSON.parse(company.categoryMapping!)]));
+};
+
+export const saveCategoryMapping = async (companyName: string, mapping: CategoryMapping): Promise<CategoryMapping> => {
+  const categoryMapping = JSON.stringify(mapping);
+  await db.company.upsert({
+    where: { name: companyName },
+    create: { name: companyName, categoryMapping },
+    update: { categoryMapping },
+  });
+  return mapping;
+};
+
+export const getCategoryMapping = async (companyName: string): Promise<CategoryMapping> => {
+  const company = await db.company.findUnique({
+    where: { name: companyName },
+    select: { categoryMapping: true },
+  });
+  return company?.categoryMapping ? JSON.parse(company.categoryMapping) : {};
+};
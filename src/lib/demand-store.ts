@@ -0,0 +1,31 @@
+import { db } from '@/lib/db';
+import { upsertStation } from '@/lib/schedule-store';
+import { stationKey, type DemandByStation, type FileInfo, type StationDemand } from '@/lib/schedule';
+
+// Stations that never saved demand are left out; their cards show no gaps.
+export const listStationDemand = async (): Promise<DemandByStation> => {
+  const stations = await db.station.findMany({
+    where: { demand: { not: null } },
+    select: { name: true, demand: true, company: { select: { name: true } } },
+  });
+  return Object.fromEntries(
+    stations.map(station => [
+      stationKey({ companyName: station.company.name, stationName: station.name }),
+      JSON.parse(station.demand!),
+    ])
+  );
+};
+
+export const saveStationDemand = async (station: FileInfo, demand: StationDemand): Promise<StationDemand> => {
+  const { id } = await upsertStation(db, station);
+  await db.station.update({ where: { id }, data: { demand: JSON.stringify(demand) } });
+  return demand;
+};
+
+export const getStationDemand = async ({ companyName, stationName }: FileInfo): Promise<StationDemand | undefined> => {
+  const station = await db.station.findFirst({
+    where: { name: stationName, company: { name: companyName } },
+    select: { demand: true },
+  });
+  return station?.demand ? JSON.parse(station.demand) : undefined;
+};
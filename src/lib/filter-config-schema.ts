@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { ASSIGNMENT_CATEGORY_IDS, FILTER_CONFIG_VERSION, type FilterConfigFile } from '@/lib/schedule';
+import { filterRuleSchema } from '@/lib/filter-preset-schema';
+
+export const filterConfigFileSchema = z.object({
+  version: z.literal(FILTER_CONFIG_VERSION),
+  exportedAt: z.string(),
+  rules: z.array(filterRuleSchema),
+  wordFilterState: z.record(z.string(), z.boolean()),
+  categories: z.record(z.string(), z.record(z.string(), z.enum(ASSIGNMENT_CATEGORY_IDS))),
+});
+
+// Reads an exported filter configuration, throwing an Error whose message can be shown as is.
+export const parseFilterConfigFile = (text: string): FilterConfigFile => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const version = (json as { version?: unknown } | null)?.version;
+  if (typeof version === 'number' && version > FILTER_CONFIG_VERSION) {
+    throw new Error(`The file is version ${version}; this app reads up to version ${FILTER_CONFIG_VERSION}.`);
+  }
+
+  const parsed = filterConfigFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error('The file is not a filter configuration export.');
+  }
+  return parsed.data;
+};
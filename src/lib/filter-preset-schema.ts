@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+export const filterRuleSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['exact', 'prefix', 'suffix', 'contains', 'regex', 'numeric']),
+  pattern: z.string(),
+  action: z.enum(['include', 'exclude']),
+});
+
+// Request body for creating or replacing a filter preset. Omitted rules mean the default rule set.
+export const filterPresetSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  scope: z.object({ companyName: z.string().min(1), stationName: z.string().min(1) }).nullable(),
+  rules: z.array(filterRuleSchema).optional(),
+  wordFilterState: z.record(z.string(), z.boolean()),
+});
+
+// Filters that aren't a saved preset, passed to the report in ?filter= so it counts like the card
+export const reportFilterSchema = z.object({
+  label: z.string().trim().min(1).max(120),
+  rules: z.array(filterRuleSchema),
+  wordFilterState: z.record(z.string(), z.boolean()),
+});
+
+export type ReportFilter = z.infer<typeof reportFilterSchema>;
@@ -0,0 +1,120 @@
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import { upsertStation } from '@/lib/schedule-store';
+import {
+  DEFAULT_FILTER_RULES,
+  builtInFilterState,
+  isBuiltInFilterSet,
+  withDefaultFilterState,
+  type FileInfo,
+  type FilterPreset,
+  type FilterRule,
+  type WordFilterState,
+} from '@/lib/schedule';
+
+export interface SaveFilterPresetInput {
+  name: string;
+  scope: FileInfo | null;
+  rules?: FilterRule[];
+  wordFilterState: WordFilterState;
+}
+
+const PRESET_INCLUDE = { station: { include: { company: true } } } satisfies Prisma.FilterPresetInclude;
+
+type PresetWithStation = Prisma.FilterPresetGetPayload<{ include: typeof PRESET_INCLUDE }>;
+
+const toFilterPreset = (preset: PresetWithStation): FilterPreset => ({
+  id: preset.id,
+  name: preset.name,
+  scope: preset.station ? { companyName: preset.station.company.name, stationName: preset.station.name } : null,
+  rules: preset.rules ? JSON.parse(preset.rules) : DEFAULT_FILTER_RULES,
+  wordFilterState: JSON.parse(preset.wordFilterState),
+  updatedAt: preset.updatedAt.toISOString(),
+});
+
+const stationIdFor = async (scope: FileInfo | null) => (scope ? (await upsertStation(db, scope)).id : null);
+
+// Global presets first, then by name.
+export const listFilterPresets = async (): Promise<FilterPreset[]> => {
+  const presets = await db.filterPreset.findMany({ include: PRESET_INCLUDE, orderBy: [{ stationId: 'asc' }, { name: 'asc' }] });
+  return presets.map(toFilterPreset);
+};
+
+export const createFilterPreset = async (input: SaveFilterPresetInput): Promise<FilterPreset> => {
+  const preset = await db.filterPreset.create({
+    data: {
+      name: input.name,
+      stationId: await stationIdFor(input.scope),
+      rules: input.rules ? JSON.stringify(input.rules) : null,
+      wordFilterState: JSON.stringify(input.wordFilterState),
+    },
+    include: PRESET_INCLUDE,
+  });
+  return toFilterPreset(preset);
+};
+
+export const updateFilterPreset = async (id: string, input: SaveFilterPresetInput): Promise<FilterPreset | null> => {
+  if (!(await db.filterPreset.findUnique({ where: { id } }))) return null;
+  const preset = await db.filterPreset.update({
+    where: { id },
+    data: {
+      name: input.name,
+      stationId: await stationIdFor(input.scope),
+      rules: input.rules ? JSON.stringify(input.rules) : null,
+      wordFilterState: JSON.stringify(input.wordFilterState),
+    },
+    include: PRESET_INCLUDE,
+  });
+  return toFilterPreset(preset);
+};
+
+export const deleteFilterPreset = async (id: string): Promise<boolean> => {
+  const { count } = await db.filterPreset.deleteMany({ where: { id } });
+  return count > 0;
+};
+
+// Finds a preset by id, or by name preferring one scoped to the given station over a global one.
+export const findFilterPreset = async (idOrName: string, station?: FileInfo): Promise<FilterPreset | null> => {
+  const presets = await listFilterPresets();
+  const byId = presets.find(preset => preset.id === idOrName);
+  if (byId) return byId;
+
+  const named = presets.filter(preset => preset.name === idOrName);
+  const scoped = station
+    ? named.find(preset => preset.scope?.companyName === station.companyName && preset.scope?.stationName === station.stationName)
+    : undefined;
+  return scoped ?? named.find(preset => preset.scope === null) ?? null;
+};
+
+export interface ResolvedFilterSet {
+  label: string;
+  rules: FilterRule[];
+  wordFilterState: WordFilterState;
+}
+
+const BUILT_IN_LABELS = { default: 'Default exclusions', all: 'Every cell counted' } as const;
+
+// Resolves a filterSet parameter (default, all, or a preset id or name) for the given
+// station's words. Null when it names no preset.
+export const resolveFilterSet = async (
+  filterSet: string,
+  station: FileInfo,
+  words: string[]
+): Promise<ResolvedFilterSet | null> => {
+  if (isBuiltInFilterSet(filterSet)) {
+    return {
+      label: BUILT_IN_LABELS[filterSet],
+      rules: filterSet === 'all' ? [] : DEFAULT_FILTER_RULES,
+      wordFilterState: builtInFilterState(filterSet, words),
+    };
+  }
+
+  const preset = await findFilterPreset(filterSet, station);
+  if (!preset) return null;
+  // Words without a per-word override in the preset are decided by its rules
+  return {
+    label: `Preset: ${preset.name}`,
+    rules: preset.rules,
+    wordFilterState: withDefaultFilterState(preset.wordFilterState, words, preset.rules),
+  };
+};
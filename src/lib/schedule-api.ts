@@ -0,0 +1,112 @@
+// Browser-side calls to the /api/schedules, /api/filter-presets, /api/category-mappings and /api/station-demand routes.
+
+import type {
+  CategoryMapping,
+  CategoryMappingsByCompany,
+  DemandByStation,
+  FileInfo,
+  FilterPreset,
+  FilterRule,
+  ScheduleFile,
+  ScheduleUploadRecord,
+  ScheduleUploadSummary,
+  StationDemand,
+  WordFilterState,
+} from '@/lib/schedule';
+
+const request = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error ?? `Request failed with status ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const saveScheduleFile = async (file: ScheduleFile): Promise<ScheduleUploadSummary> => {
+  const { upload } = await request<{ upload: ScheduleUploadSummary }>('/api/schedules', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      fileName: file.fileName,
+      sheetName: file.sheetName ?? null,
+      rawData: file.rawData,
+      layoutDetection: file.layoutDetection,
+    }),
+  });
+  return upload;
+};
+
+export const listScheduleUploads = async (): Promise<ScheduleUploadSummary[]> => {
+  const { uploads } = await request<{ uploads: ScheduleUploadSummary[] }>('/api/schedules');
+  return uploads;
+};
+
+export const fetchScheduleUpload = async (id: string): Promise<ScheduleUploadRecord> => {
+  const { upload } = await request<{ upload: ScheduleUploadRecord }>(`/api/schedules/${encodeURIComponent(id)}`);
+  return upload;
+};
+
+export const deleteScheduleUpload = (id: string): Promise<void> =>
+  request<void>(`/api/schedules/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export interface FilterPresetInput {
+  name: string;
+  scope: FileInfo | null;
+  rules: FilterRule[];
+  wordFilterState: WordFilterState;
+}
+
+export const listFilterPresets = async (): Promise<FilterPreset[]> => {
+  const { presets } = await request<{ presets: FilterPreset[] }>('/api/filter-presets');
+  return presets;
+};
+
+export const createFilterPreset = async (input: FilterPresetInput): Promise<FilterPreset> => {
+  const { preset } = await request<{ preset: FilterPreset }>('/api/filter-presets', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  return preset;
+};
+
+export const updateFilterPreset = async (id: string, input: FilterPresetInput): Promise<FilterPreset> => {
+  const { preset } = await request<{ preset: FilterPreset }>(`/api/filter-presets/${encodeURIComponent(id)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+  return preset;
+};
+
+export const deleteFilterPreset = (id: string): Promise<void> =>
+  request<void>(`/api/filter-presets/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const listCategoryMappings = async (): Promise<CategoryMappingsByCompany> => {
+  const { mappings } = await request<{ mappings: CategoryMappingsByCompany }>('/api/category-mappings');
+  return mappings;
+};
+
+export const saveCategoryMapping = async (companyName: string, mapping: CategoryMapping): Promise<CategoryMapping> => {
+  const saved = await request<{ mapping: CategoryMapping }>('/api/category-mappings', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ companyName, mapping }),
+  });
+  return saved.mapping;
+};
+
+export const listStationDemand = async (): Promise<DemandByStation> => {
+  const { demand } = await request<{ demand: DemandByStation }>('/api/station-demand');
+  return demand;
+};
+
+export const saveStationDemand = async (station: FileInfo, demand: StationDemand): Promise<StationDemand> => {
+  const saved = await request<{ demand: StationDemand }>('/api/station-demand', {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ companyName: station.companyName, stationName: station.stationName, demand }),
+  });
+  return saved.demand;
+};
@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+// Rows and columns are 0-based, as in ScheduleLayout
+export const layoutSchema = z.object({
+  infoRow: z.number().int().min(0),
+  companyColumn: z.number().int().min(0),
+  stationColumn: z.number().int().min(0),
+  dateRow: z.number().int().min(0),
+  firstDateColumn: z.number().int().min(0),
+  firstAssignmentRow: z.number().int().min(0),
+});
@@ -0,0 +1,129 @@
+import type { Prisma } from '@prisma/client';
+import { db } from '@/lib/db';
+import {
+  buildRoster,
+  extractFileInfo,
+  getDateColumns,
+  parseScheduleDate,
+  type FileInfo,
+  type LayoutDetection,
+  type ScheduleMatrix,
+  type ScheduleUploadRecord,
+  type ScheduleUploadSummary,
+} from '@/lib/schedule';
+
+export interface SaveScheduleInput {
+  fileName: string;
+  sheetName?: string | null;
+  rawData: ScheduleMatrix;
+  layoutDetection: LayoutDetection;
+}
+
+const SUMMARY_INCLUDE = {
+  station: { include: { company: true } },
+  _count: { select: { drivers: true } },
+} satisfies Prisma.ScheduleUploadInclude;
+
+type UploadWithStation = Prisma.ScheduleUploadGetPayload<{ include: typeof SUMMARY_INCLUDE }>;
+
+const toSummary = (upload: UploadWithStation): ScheduleUploadSummary => ({
+  id: upload.id,
+  fileName: upload.fileName,
+  sheetName: upload.sheetName,
+  companyName: upload.station.company.name,
+  stationName: upload.station.name,
+  startDate: upload.startDate?.toISOString() ?? null,
+  endDate: upload.endDate?.toISOString() ?? null,
+  dateCount: upload.dateCount,
+  driverCount: upload._count.drivers,
+  uploadedAt: upload.uploadedAt.toISOString(),
+});
+
+// Companies and stations are created the first time they are seen.
+export const upsertStation = async (client: Prisma.TransactionClient, { companyName, stationName }: FileInfo) => {
+  const company = await client.company.upsert({
+    where: { name: companyName },
+    create: { name: companyName },
+    update: {},
+  });
+  return client.station.upsert({
+    where: { companyId_name: { companyId: company.id, name: stationName } },
+    create: { name: stationName, companyId: company.id },
+    update: {},
+  });
+};
+
+// Stores one parsed sheet with every driver row and its raw cell per date.
+export const saveScheduleUpload = async (input: SaveScheduleInput): Promise<ScheduleUploadSummary> => {
+  const { layout } = input.layoutDetection;
+  const { companyName, stationName } = extractFileInfo(input.rawData, layout);
+  const dateColumns = getDateColumns(input.rawData, layout);
+  const dates = dateColumns.map(column => parseScheduleDate(column.rawDate)).filter((date): date is Date => date !== null);
+  // Every cell counts here; the filter only matters when counting
+  const roster = buildRoster(input.rawData, {}, layout);
+
+  return db.$transaction(async (tx: Prisma.TransactionClient) => {
+    const station = await upsertStation(tx, { companyName, stationName });
+
+    const upload = await tx.scheduleUpload.create({
+      data: {
+        fileName: input.fileName,
+        sheetName: input.sheetName ?? null,
+        stationId: station.id,
+        rawData: JSON.stringify(input.rawData),
+        layout: JSON.stringify(input.layoutDetection),
+        startDate: dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null,
+        endDate: dates.length > 0 ? new Date(Math.max(...dates.map(date => date.getTime()))) : null,
+        dateCount: dateColumns.length,
+      },
+    });
+
+    // Two bulk inserts whatever the roster size, so a month of drivers stays well inside the transaction timeout
+    const drivers = await tx.driver.createManyAndReturn({
+      data: roster.map(driver => ({
+        uploadId: upload.id,
+        row: driver.row,
+        name: driver.name,
+        externalId: driver.driverId || null,
+      })),
+      select: { id: true, row: true },
+    });
+    const driverIds = new Map(drivers.map(driver => [driver.row, driver.id]));
+
+    await tx.shiftAssignment.createMany({
+      data: roster.flatMap(driver =>
+        driver.assignments.map(assignment => ({
+          uploadId: upload.id,
+          driverId: driverIds.get(driver.row)!,
+          date: parseScheduleDate(assignment.rawDate),
+          dateLabel: String(assignment.rawDate ?? ''),
+          column: assignment.column,
+          value: String(input.rawData[driver.row]?.[assignment.column] ?? '').trim(),
+        }))
+      ),
+    });
+
+    return toSummary(await tx.scheduleUpload.findUniqueOrThrow({ where: { id: upload.id }, include: SUMMARY_INCLUDE }));
+  });
+};
+
+// Newest first.
+export const listScheduleUploads = async (): Promise<ScheduleUploadSummary[]> => {
+  const uploads = await db.scheduleUpload.findMany({ include: SUMMARY_INCLUDE, orderBy: { uploadedAt: 'desc' } });
+  return uploads.map(toSummary);
+};
+
+export const getScheduleUpload = async (id: string): Promise<ScheduleUploadRecord | null> => {
+  const upload = await db.scheduleUpload.findUnique({ where: { id }, include: SUMMARY_INCLUDE });
+  if (!upload) return null;
+  return {
+    ...toSummary(upload),
+    rawData: JSON.parse(upload.rawData),
+    layoutDetection: JSON.parse(upload.layout),
+  };
+};
+
+export const deleteScheduleUpload = async (id: string): Promise<boolean> => {
+  const { count } = await db.scheduleUpload.deleteMany({ where: { id } });
+  return count > 0;
+};
@@ -0,0 +1,27 @@
+import type { ScheduleMatrix } from '../types';
+
+// A week of the Amazon portal export as `sheet_to_json(..., { header: 1, raw: false })`
+// returns it: company/station on row 1, dates on row 3, drivers from row 4.
+// Route codes with dashes ("Route 12-3") are real assignments, not dates.
+export const AMAZON_EXPORT: ScheduleMatrix = [
+  ['Associate schedule'],
+  ['', 'Acme Logistics', 'DXX1'],
+  [],
+  ['Driver', 'Transporter ID', '1/6/2025', '1/7/2025', '1/8/2025'],
+  ['Alice Smith', 'A1', 'CX12', 'CX12', ''],
+  ['Bob Jones', 'B2', 'Route 12-3', 'DSP Initiated Work - Training', 'CX14'],
+  ['Cara Diaz', 'C3', '5', 'Route 4-10', 'CX12'],
+  ['Dan Wu', 'D4', '', 'CX14', 'Route 10-20'],
+];
+
+// The same week pushed down by a banner row, with the weekday names repeated under the dates.
+export const BANNER_EXPORT: ScheduleMatrix = [
+  ['Confidential'],
+  ['Associate schedule'],
+  ['', 'Acme Logistics', 'DXX1'],
+  [],
+  ['Driver', 'Transporter ID', 'Mon 1/6', 'Tue 1/7', 'Wed 1/8'],
+  ['', '', 'Mon', 'Tue', 'Wed'],
+  ['Alice Smith', 'A1', 'CX12', 'CX12', ''],
+  ['Bob Jones', 'B2', 'CX14', '', 'CX14'],
+];
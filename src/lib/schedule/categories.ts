@@ -0,0 +1,81 @@
+import { getColumnCells, getDateColumns } from './extract';
+import { isDefaultExcluded } from './filters';
+import { BLANK_WORD, DEFAULT_LAYOUT, type ScheduleLayout } from './layout';
+import type { DailyCount, ScheduleMatrix } from './types';
+
+export const ASSIGNMENT_CATEGORY_IDS = [
+  'delivery',
+  'rescue',
+  'training',
+  'helper',
+  'pto',
+  'callout',
+  'blank',
+  'uncategorized',
+] as const;
+export type AssignmentCategory = (typeof ASSIGNMENT_CATEGORY_IDS)[number];
+
+export const ASSIGNMENT_CATEGORIES: Record<AssignmentCategory, { label: string; color: string }> = {
+  delivery: { label: 'Delivery Route', color: '#34d399' },
+  rescue: { label: 'Rescue', color: '#22d3ee' },
+  training: { label: 'Training', color: '#a78bfa' },
+  helper: { label: 'Helper', color: '#60a5fa' },
+  pto: { label: 'PTO', color: '#fbbf24' },
+  callout: { label: 'Call-out', color: '#f87171' },
+  blank: { label: 'Blank', color: '#475569' },
+  uncategorized: { label: 'Uncategorized', color: '#94a3b8' },
+};
+
+// Words the user has assigned to a category; other words fall back to guessCategory.
+export type CategoryMapping = Record<string, AssignmentCategory>;
+// Mappings are kept per company, keyed by companyName.
+export type CategoryMappingsByCompany = Record<string, CategoryMapping>;
+
+export interface CategoryCount extends Omit<DailyCount, 'count'> {
+  byCategory: Record<AssignmentCategory, number>;
+  total: number;
+}
+
+// Keyword guesses for words nobody has mapped yet; the order matters ("PTO Training" is PTO).
+const CATEGORY_PATTERNS: [AssignmentCategory, RegExp][] = [
+  ['uncategorized', /^(off|day off|rest)$/i],
+  ['pto', /\b(pto|vto|upt|vacation|holiday|leave|sick)\b/i],
+  ['callout', /call[\s-]?out|no[\s-]?show|\bncns\b/i],
+  ['rescue', /rescue/i],
+  ['training', /train|ride[\s-]?along|orientation/i],
+  ['helper', /helper/i],
+  ['delivery', /route|\bcx\s?\d+|\d{1,2}:\d{2}/i],
+];
+
+export const guessCategory = (word: string): AssignmentCategory => {
+  if (word === BLANK_WORD) return 'blank';
+  const match = CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(word));
+  if (match) return match[0];
+  return isDefaultExcluded(word) ? 'uncategorized' : 'delivery';
+};
+
+export const categoryOf = (mapping: CategoryMapping, word: string): AssignmentCategory =>
+  mapping[word] ?? guessCategory(word);
+
+export const emptyCategoryCounts = (): Record<AssignmentCategory, number> =>
+  Object.fromEntries(ASSIGNMENT_CATEGORY_IDS.map(id => [id, 0])) as Record<AssignmentCategory, number>;
+
+// Every assignment cell per date, bucketed by category. Unlike processExcelData this
+// ignores the word filter, so PTO can be reported next to delivery headcount.
+export const countByCategory = (
+  jsonData: ScheduleMatrix,
+  mapping: CategoryMapping,
+  layout: ScheduleLayout = DEFAULT_LAYOUT
+): CategoryCount[] =>
+  getDateColumns(jsonData, layout).map(({ column, rawDate, date }) => {
+    const byCategory = emptyCategoryCounts();
+    const cells = getColumnCells(jsonData, column, layout);
+    cells.forEach(cell => {
+      byCategory[categoryOf(mapping, cell.word)] += 1;
+    });
+    return { date, rawDate, column, byCategory, total: cells.length };
+  });
+
+// Categories with at least one cell, in taxonomy order.
+export const usedCategories = (counts: CategoryCount[]): AssignmentCategory[] =>
+  ASSIGNMENT_CATEGORY_IDS.filter(id => counts.some(count => count.byCategory[id] > 0));
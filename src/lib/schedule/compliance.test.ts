@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { checkCompliance, checkDriverCompliance, DEFAULT_COMPLIANCE_LIMITS, summarizeCompliance } from './compliance';
+import { BLANK_WORD } from './layout';
+import { buildRoster } from './roster';
+import type { ScheduleMatrix } from './types';
+
+// Two weeks, Monday 1/6/2025 to Sunday 1/19/2025; `worked` marks the days with a route
+const DATES = Array.from({ length: 14 }, (_, day) => `1/${6 + day}/2025`);
+const driverRow = (name: string, worked: (day: number) => boolean, word = 'CX12') => [
+  name,
+  name[0],
+  ...DATES.map((_, day) => (worked(day) ? word : '')),
+];
+
+const data: ScheduleMatrix = [
+  ['Associate schedule'],
+  ['', 'Acme Logistics', 'DXX1'],
+  [],
+  ['Driver', 'Transporter ID', ...DATES],
+  driverRow('Alice Smith', day => day < 7),
+  driverRow('Bob Jones', day => day % 7 < 5),
+  driverRow('Cara Diaz', day => day < 7, 'PTO'),
+];
+const roster = buildRoster(data, { PTO: false, [BLANK_WORD]: false });
+
+describe('checkDriverCompliance', () => {
+  it('reports a full week worked under every rule', () => {
+    const violations = checkDriverCompliance(roster[0], DEFAULT_COMPLIANCE_LIMITS);
+    expect(violations.map(violation => violation.rule)).toEqual(['consecutive-days', 'weekly-days', 'rest-days']);
+    expect(violations[0].message).toBe('7 days in a row (Jan 6 – Jan 12); limit is 6.');
+    expect(violations[0].columns).toEqual([2, 3, 4, 5, 6, 7, 8]);
+    expect(violations[1].message).toBe('7 days in week 2; limit is 5.');
+    // The windows starting on Jan 6 and Jan 7 both fall short, so they are reported as one span
+    expect(violations[2].message).toBe('Only 0 rest days in 7 between Jan 6 and Jan 13; needs 2.');
+  });
+
+  it('accepts a five-day week with the weekend off', () => {
+    expect(checkDriverCompliance(roster[1], DEFAULT_COMPLIANCE_LIMITS)).toEqual([]);
+  });
+
+  it('does not count days the filter leaves out', () => {
+    expect(checkDriverCompliance(roster[2], DEFAULT_COMPLIANCE_LIMITS)).toEqual([]);
+  });
+
+  it('ends a streak at a date missing from the sheet', () => {
+    const gap = data.map((row, index) => (index >= 3 ? row.filter((_, column) => column !== 5) : row));
+    const [alice] = buildRoster(gap, { [BLANK_WORD]: false });
+    const streaks = checkDriverCompliance(alice, { ...DEFAULT_COMPLIANCE_LIMITS, maxConsecutiveDays: 2 }).filter(
+      violation => violation.rule === 'consecutive-days'
+    );
+    expect(streaks.map(violation => violation.message)).toEqual([
+      '3 days in a row (Jan 6 – Jan 8); limit is 2.',
+      '3 days in a row (Jan 10 – Jan 12); limit is 2.',
+    ]);
+  });
+});
+
+describe('summarizeCompliance', () => {
+  it('counts drivers and violations per rule', () => {
+    const violations = checkCompliance(roster, DEFAULT_COMPLIANCE_LIMITS);
+    expect(Array.from(violations.keys())).toEqual([4]);
+    expect(summarizeCompliance(violations)).toEqual({
+      drivers: 1,
+      byRule: { 'consecutive-days': 1, 'weekly-days': 1, 'rest-days': 1 },
+    });
+  });
+});
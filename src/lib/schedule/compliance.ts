@@ -0,0 +1,170 @@
+import { format, getISOWeek } from 'date-fns';
+import { isoWeekKey, parseScheduleDate } from './dates';
+import type { RosterDriver } from './roster';
+
+export interface ComplianceLimits {
+  maxConsecutiveDays: number;
+  maxDaysPerWeek: number;
+  // Rest days required in any 7 calendar days
+  minRestDays: number;
+}
+
+export const DEFAULT_COMPLIANCE_LIMITS: ComplianceLimits = {
+  maxConsecutiveDays: 6,
+  maxDaysPerWeek: 5,
+  minRestDays: 2,
+};
+
+export type ComplianceRule = 'consecutive-days' | 'weekly-days' | 'rest-days';
+
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+  'consecutive-days': 'Too many days in a row',
+  'weekly-days': 'Over the weekly day cap',
+  'rest-days': 'Missing rest days',
+};
+
+export interface ComplianceViolation {
+  rule: ComplianceRule;
+  message: string;
+  /** Sheet columns of the worked days the violation covers. */
+  columns: number[];
+}
+
+export interface ComplianceSummary {
+  drivers: number;
+  byRule: Record<ComplianceRule, number>;
+}
+
+// A calendar day of one driver; a date that appears in two columns is worked if either is.
+interface WorkDay {
+  day: number;
+  date: Date;
+  worked: boolean;
+  columns: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole days since the epoch, immune to DST shifts.
+const dayNumber = (date: Date) => Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+
+const fromDayNumber = (day: number) => {
+  const utc = new Date(day * DAY_MS);
+  return new Date(utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate());
+};
+
+const shortDate = (date: Date) => format(date, 'MMM d');
+
+const workDays = (driver: RosterDriver): WorkDay[] => {
+  const days = new Map<number, WorkDay>();
+  driver.assignments.forEach(assignment => {
+    const date = parseScheduleDate(assignment.rawDate);
+    if (!date) return;
+    const day = dayNumber(date);
+    const entry = days.get(day) ?? { day, date, worked: false, columns: [] };
+    entry.worked ||= assignment.counted;
+    if (assignment.counted) entry.columns.push(assignment.column);
+    days.set(day, entry);
+  });
+  return Array.from(days.values()).sort((a, b) => a.day - b.day);
+};
+
+const streakViolations = (days: WorkDay[], limit: number): ComplianceViolation[] => {
+  const violations: ComplianceViolation[] = [];
+  let streak: WorkDay[] = [];
+
+  const close = () => {
+    if (streak.length > limit) {
+      violations.push({
+        rule: 'consecutive-days',
+        message: `${streak.length} days in a row (${shortDate(streak[0].date)} – ${shortDate(streak[streak.length - 1].date)}); limit is ${limit}.`,
+        columns: streak.flatMap(day => day.columns),
+      });
+    }
+    streak = [];
+  };
+
+  // A date missing from the sheet ends the streak, since nothing says it was worked
+  days.forEach(day => {
+    const last = streak[streak.length - 1];
+    if (!day.worked || (last && day.day !== last.day + 1)) close();
+    if (day.worked) streak.push(day);
+  });
+  close();
+  return violations;
+};
+
+const weeklyViolations = (days: WorkDay[], limit: number): ComplianceViolation[] => {
+  const weeks = new Map<string, WorkDay[]>();
+  days
+    .filter(day => day.worked)
+    .forEach(day => {
+      const key = isoWeekKey(day.date);
+      weeks.set(key, [...(weeks.get(key) ?? []), day]);
+    });
+
+  return Array.from(weeks.values())
+    .filter(worked => worked.length > limit)
+    .map(worked => ({
+      rule: 'weekly-days' as const,
+      message: `${worked.length} days in week ${getISOWeek(worked[0].date)}; limit is ${limit}.`,
+      columns: worked.flatMap(day => day.columns),
+    }));
+};
+
+// Slides a 7-day window over the dates the sheet covers. Overlapping windows that
+// fall short are reported once, as the span they cover together.
+const restViolations = (days: WorkDay[], minimum: number): ComplianceViolation[] => {
+  if (days.length === 0 || minimum <= 0) return [];
+  const worked = new Map(days.filter(day => day.worked).map(day => [day.day, day]));
+  const first = days[0].day;
+  const last = days[days.length - 1].day;
+
+  const spans: { start: number; end: number; fewest: number }[] = [];
+  for (let start = first; start + 6 <= last; start++) {
+    let rest = 0;
+    for (let day = start; day < start + 7; day++) if (!worked.has(day)) rest++;
+    if (rest >= minimum) continue;
+
+    const open = spans[spans.length - 1];
+    if (open && start <= open.end) {
+      open.end = start + 6;
+      open.fewest = Math.min(open.fewest, rest);
+    } else {
+      spans.push({ start, end: start + 6, fewest: rest });
+    }
+  }
+
+  return spans.map(span => {
+    const covered = Array.from(worked.values()).filter(day => day.day >= span.start && day.day <= span.end);
+    return {
+      rule: 'rest-days' as const,
+      message: `Only ${span.fewest} rest day${span.fewest === 1 ? '' : 's'} in 7 between ${shortDate(fromDayNumber(span.start))} and ${shortDate(fromDayNumber(span.end))}; needs ${minimum}.`,
+      columns: covered.flatMap(day => day.columns),
+    };
+  });
+};
+
+// Worked means counted by the current filter, so PTO or call-outs never add to a streak.
+export const checkDriverCompliance = (driver: RosterDriver, limits: ComplianceLimits): ComplianceViolation[] => {
+  const days = workDays(driver);
+  return [
+    ...streakViolations(days, limits.maxConsecutiveDays),
+    ...weeklyViolations(days, limits.maxDaysPerWeek),
+    ...restViolations(days, limits.minRestDays),
+  ];
+};
+
+/** Driver row -> violations, for drivers with at least one. */
+export const checkCompliance = (roster: RosterDriver[], limits: ComplianceLimits): Map<number, ComplianceViolation[]> =>
+  new Map(
+    roster
+      .map(driver => [driver.row, checkDriverCompliance(driver, limits)] as const)
+      .filter(([, violations]) => violations.length > 0)
+  );
+
+export const summarizeCompliance = (violations: Map<number, ComplianceViolation[]>): ComplianceSummary => {
+  const byRule: Record<ComplianceRule, number> = { 'consecutive-days': 0, 'weekly-days': 0, 'rest-days': 0 };
+  violations.forEach(list => list.forEach(violation => byRule[violation.rule]++));
+  return { drivers: violations.size, byRule };
+};
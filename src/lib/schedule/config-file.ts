@@ -0,0 +1,122 @@
+import { categoryOf, type AssignmentCategory, type CategoryMappingsByCompany } from './categories';
+import { withDefaultFilterState, withWordOverrides } from './filters';
+import type { FilterRule } from './rules';
+import type { WordFilterState } from './types';
+
+// Bump when the file shape changes; older files must keep importing.
+export const FILTER_CONFIG_VERSION = 1;
+
+// Everything the filter modal edits: rules, per-word overrides and category mappings.
+export interface FilterConfig {
+  rules: FilterRule[];
+  wordFilterState: WordFilterState;
+  categories: CategoryMappingsByCompany;
+}
+
+export interface FilterConfigFile extends FilterConfig {
+  version: typeof FILTER_CONFIG_VERSION;
+  exportedAt: string;
+}
+
+// A word the two configurations count differently.
+export interface ToggleConflict {
+  word: string;
+  current: boolean;
+  incoming: boolean;
+}
+
+export interface CategoryConflict {
+  companyName: string;
+  word: string;
+  current: AssignmentCategory;
+  incoming: AssignmentCategory;
+}
+
+export interface FilterConfigImportPreview {
+  // Words the file mentions that are in none of the current uploads
+  unknownWords: string[];
+  conflicts: ToggleConflict[];
+  categoryConflicts: CategoryConflict[];
+  rulesDiffer: boolean;
+}
+
+export interface FilterConfigMergeOptions {
+  replaceRules: boolean;
+  // Conflicting words that keep their current state; all others take the imported one
+  keepCurrent: Set<string>;
+}
+
+export const toFilterConfigFile = (config: FilterConfig, exportedAt: Date = new Date()): FilterConfigFile => ({
+  version: FILTER_CONFIG_VERSION,
+  exportedAt: exportedAt.toISOString(),
+  ...config,
+});
+
+export const filterConfigFileName = (exportedAt: Date = new Date()) =>
+  `filter-config-${exportedAt.toISOString().slice(0, 10)}.json`;
+
+// Rule ids are generated per session, so only what a rule does is compared.
+const sameRules = (a: FilterRule[], b: FilterRule[]) =>
+  a.length === b.length &&
+  a.every((rule, i) => rule.kind === b[i].kind && rule.pattern === b[i].pattern && rule.action === b[i].action);
+
+const toggleConflicts = (current: FilterConfig, incoming: FilterConfig, words: string[]): ToggleConflict[] => {
+  const currentState = withDefaultFilterState(current.wordFilterState, words, current.rules);
+  const incomingState = withDefaultFilterState(incoming.wordFilterState, words, incoming.rules);
+  return words
+    .filter(word => currentState[word] !== incomingState[word])
+    .map(word => ({ word, current: currentState[word], incoming: incomingState[word] }));
+};
+
+export const previewFilterConfigImport = (
+  current: FilterConfig,
+  incoming: FilterConfig,
+  words: string[]
+): FilterConfigImportPreview => {
+  const known = new Set(words);
+  const mentioned = [
+    ...Object.keys(incoming.wordFilterState),
+    ...Object.values(incoming.categories).flatMap(mapping => Object.keys(mapping)),
+  ];
+
+  const categoryConflicts = Object.entries(incoming.categories).flatMap(([companyName, mapping]) =>
+    Object.entries(mapping)
+      .map(([word, category]) => ({
+        companyName,
+        word,
+        current: categoryOf(current.categories[companyName] ?? {}, word),
+        incoming: category,
+      }))
+      .filter(conflict => conflict.current !== conflict.incoming)
+  );
+
+  return {
+    unknownWords: Array.from(new Set(mentioned.filter(word => !known.has(word)))).sort(),
+    conflicts: toggleConflicts(current, incoming, words),
+    categoryConflicts,
+    rulesDiffer: !sameRules(current.rules, incoming.rules),
+  };
+};
+
+// Imported overrides and category assignments win unless a conflict is kept. Words without
+// a conflict count the same either way, so only the conflicts need an explicit override.
+export const mergeFilterConfig = (
+  current: FilterConfig,
+  incoming: FilterConfig,
+  words: string[],
+  { replaceRules, keepCurrent }: FilterConfigMergeOptions
+): FilterConfig => {
+  const rules = replaceRules ? incoming.rules : current.rules;
+  const wordFilterState = toggleConflicts(current, incoming, words).reduce(
+    (state, conflict) =>
+      withWordOverrides(state, rules, [conflict.word], keepCurrent.has(conflict.word) ? conflict.current : conflict.incoming),
+    { ...current.wordFilterState, ...incoming.wordFilterState }
+  );
+
+  const categories = { ...current.categories };
+  Object.entries(incoming.categories).forEach(([companyName, mapping]) => {
+    categories[companyName] = { ...categories[companyName], ...mapping };
+  });
+
+  return { rules, wordFilterState, categories };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { consolidateCounts } from './consolidate';
+import type { DailyCount } from './types';
+
+const week = (start: number, values: number[]): DailyCount[] =>
+  values.map((count, day) => ({ date: `1/${start + day}`, rawDate: `1/${start + day}/2025`, column: 2 + day, count }));
+
+const file = (stationName: string, counts: DailyCount[], companyName = 'Acme Logistics') => ({ companyName, stationName, counts });
+
+describe('consolidateCounts', () => {
+  it('adds up the weeks and stations of a company', () => {
+    const files = [
+      file('DXX1', week(6, [3, 4])),
+      file('DXX1', week(13, [5, 5])),
+      file('DXX2', week(6, [1, 1])),
+      file('DYY1', week(6, [2, 2]), 'Other DSP'),
+    ];
+
+    const byStation = consolidateCounts(files, 'station');
+    expect(byStation.rows.map(row => [row.key, row.fileCount, row.total])).toEqual([
+      ['Acme Logistics/DXX1', 2, 17],
+      ['Acme Logistics/DXX2', 1, 2],
+      ['Other DSP/DYY1', 1, 4],
+    ]);
+    expect(byStation.dailyTotals['2025-01-06']).toBe(6);
+
+    const byCompany = consolidateCounts(files, 'company');
+    expect(byCompany.rows.map(row => [row.label, row.stationNames, row.total])).toEqual([
+      ['Acme Logistics', ['DXX1', 'DXX2'], 19],
+      ['Other DSP', ['DYY1'], 4],
+    ]);
+    expect(byCompany.total).toBe(23);
+  });
+
+  it('counts a date two files of one station cover once, from the later file', () => {
+    // The original week and an edited version of it, plus the week after
+    const files = [file('DXX1', week(6, [3, 4, 4])), file('DXX1', week(6, [3, 5, 2])), file('DXX1', week(9, [6]))];
+
+    const { axis, rows, dailyTotals, total } = consolidateCounts(files, 'station');
+    expect(axis.map(point => point.values['Acme Logistics/DXX1'])).toEqual([3, 5, 2, 6]);
+    expect(dailyTotals['2025-01-07']).toBe(5);
+    expect(total).toBe(16);
+    expect(rows[0].overlaps).toEqual(['1/6', '1/7', '1/8']);
+  });
+
+  it('still adds up the same date at different stations', () => {
+    const { dailyTotals, rows } = consolidateCounts([file('DXX1', week(6, [3])), file('DXX2', week(6, [4]))], 'company');
+    expect(dailyTotals['2025-01-06']).toBe(7);
+    expect(rows[0].overlaps).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { parseScheduleDate, toDateKey } from './dates';
+import { alignCountsByDate, type AlignedDate } from './series';
+import type { DailyCount, ScheduleFile } from './types';
+
+export type ConsolidationGrouping = 'station' | 'company';
+
+export interface ConsolidatedRow {
+  key: string;
+  label: string;
+  companyName: string;
+  stationNames: string[];
+  fileCount: number;
+  /** Labels of dates more than one file of a station covers; only the last file's count is used for them. */
+  overlaps: string[];
+  total: number;
+}
+
+export interface ConsolidatedCounts {
+  // Values are keyed by row key, so the axis can feed CountTrendChart directly
+  axis: AlignedDate[];
+  rows: ConsolidatedRow[];
+  // Date key -> valid count across every row
+  dailyTotals: Record<string, number>;
+  total: number;
+}
+
+type ConsolidatedFile = Pick<ScheduleFile, 'companyName' | 'stationName' | 'counts'>;
+
+// Same key alignCountsByDate uses, so overlapping columns are the ones that would add up.
+const dateKey = ({ rawDate, date }: DailyCount) => {
+  const parsed = parseScheduleDate(rawDate);
+  return parsed ? toDateKey(parsed) : `undated:${date}`;
+};
+
+// A station's files, one count per date. Two files covering the same date are
+// usually two versions of one week (a re-issued schedule, an edited copy), so
+// the later file replaces the earlier one's count instead of adding to it.
+const stationCounts = (members: ConsolidatedFile[]) => {
+  const byDate = new Map<string, { item: DailyCount; files: number }>();
+  members.forEach(file => {
+    const own = new Map<string, DailyCount>();
+    file.counts.forEach(item => {
+      const key = dateKey(item);
+      const existing = own.get(key);
+      own.set(key, existing ? { ...existing, count: existing.count + item.count } : item);
+    });
+    own.forEach((item, key) => byDate.set(key, { item, files: (byDate.get(key)?.files ?? 0) + 1 }));
+  });
+
+  const entries = Array.from(byDate.values());
+  return {
+    counts: entries.map(entry => entry.item),
+    overlaps: entries.filter(entry => entry.files > 1).map(entry => entry.item.date),
+  };
+};
+
+// Files of one station (other weeks, other sheets) add up into one row, one count
+// per date; grouping by company adds up its stations as well.
+export const consolidateCounts = (files: ConsolidatedFile[], grouping: ConsolidationGrouping): ConsolidatedCounts => {
+  const stations = new Map<string, ConsolidatedFile[]>();
+  files.forEach(file => {
+    const key = `${file.companyName}/${file.stationName}`;
+    stations.set(key, [...(stations.get(key) ?? []), file]);
+  });
+
+  const groups = new Map<string, { members: ConsolidatedFile[]; counts: DailyCount[]; overlaps: string[] }>();
+  stations.forEach((members, stationKey) => {
+    const key = grouping === 'company' ? members[0].companyName : stationKey;
+    const { counts, overlaps } = stationCounts(members);
+    const group = groups.get(key) ?? { members: [], counts: [], overlaps: [] };
+    groups.set(key, {
+      members: [...group.members, ...members],
+      counts: [...group.counts, ...counts],
+      overlaps: [...group.overlaps, ...overlaps],
+    });
+  });
+
+  const axis = alignCountsByDate(Array.from(groups, ([key, group]) => ({ id: key, counts: group.counts })));
+
+  const rows = Array.from(groups, ([key, { members, overlaps }]): ConsolidatedRow => {
+    const stationNames = Array.from(new Set(members.map(file => file.stationName))).sort();
+    return {
+      key,
+      label: grouping === 'company' ? members[0].companyName : members[0].stationName,
+      companyName: members[0].companyName,
+      stationNames,
+      fileCount: members.length,
+      overlaps: Array.from(new Set(overlaps)),
+      total: axis.reduce((sum, point) => sum + (point.values[key] ?? 0), 0),
+    };
+  }).sort((a, b) => a.companyName.localeCompare(b.companyName) || a.label.localeCompare(b.label));
+
+  const dailyTotals = Object.fromEntries(
+    axis.map(point => [point.key, Object.values(point.values).reduce((sum, value) => sum + value, 0)])
+  );
+
+  return {
+    axis,
+    rows,
+    dailyTotals,
+    total: rows.reduce((sum, row) => sum + row.total, 0),
+  };
+};
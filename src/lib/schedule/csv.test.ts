@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCsv, detectDelimiter, detectEncoding, parseCsv, readCsv } from './csv';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('detectEncoding', () => {
+  it('reads the byte order mark', () => {
+    expect(detectEncoding(bytes(0xef, 0xbb, 0xbf, 0x41))).toBe('utf-8');
+    expect(detectEncoding(bytes(0xff, 0xfe, 0x41, 0x00))).toBe('utf-16le');
+    expect(detectEncoding(bytes(0xfe, 0xff, 0x00, 0x41))).toBe('utf-16be');
+  });
+
+  it('falls back to windows-1252 for bytes that are not UTF-8', () => {
+    // "Café" with é as 0xe9
+    expect(detectEncoding(bytes(0x43, 0x61, 0x66, 0xe9))).toBe('windows-1252');
+    expect(decodeCsv(bytes(0x43, 0x61, 0x66, 0xe9))).toBe('Café');
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter most lines agree on, ignoring banner rows', () => {
+    expect(detectDelimiter('Associate schedule\n;Acme;DXX1\nDriver;ID;1/6/2025\nAlice;A1;CX12')).toBe(';');
+    expect(detectDelimiter('a\tb\tc\n1\t2\t3')).toBe('\t');
+  });
+
+  it('does not count delimiters inside quotes', () => {
+    expect(detectDelimiter('"a,b";c;d\n"e,f";g;h')).toBe(';');
+  });
+});
+
+describe('parseCsv', () => {
+  it('handles quoted delimiters, newlines and escaped quotes', () => {
+    expect(parseCsv('a,"b,c","say ""hi""\nthere"\r\nd,,e', ',')).toEqual([
+      ['a', 'b,c', 'say "hi"\nthere'],
+      ['d', '', 'e'],
+    ]);
+  });
+
+  it('keeps a last line without a trailing newline', () => {
+    expect(parseCsv('a,b\nc,d', ',')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+    expect(parseCsv('a,b\n', ',')).toEqual([['a', 'b']]);
+  });
+});
+
+describe('readCsv', () => {
+  it('strips the BOM before parsing', () => {
+    const encoded = new TextEncoder().encode('\ufeffDriver,ID\nAlice,A1');
+    expect(readCsv(encoded)).toEqual([
+      ['Driver', 'ID'],
+      ['Alice', 'A1'],
+    ]);
+  });
+});
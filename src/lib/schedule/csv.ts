@@ -0,0 +1,115 @@
+import type { ScheduleMatrix } from './types';
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const SNIFF_LINES = 20;
+
+// Picks the text encoding from the byte order mark, falling back to
+// windows-1252 when the bytes are not valid UTF-8 (Excel's "CSV" on Windows).
+export const detectEncoding = (bytes: Uint8Array): CsvEncoding => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+export const decodeCsv = (bytes: Uint8Array, encoding = detectEncoding(bytes)): string =>
+  // TextDecoder strips the BOM for the encoding it was created with
+  new TextDecoder(encoding).decode(bytes);
+
+// Counts the delimiter outside of quoted fields.
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+};
+
+// Chooses the candidate that splits the most lines into the same number of
+// fields. Banner rows at the top of the export have fewer fields, so the most
+// common count wins rather than requiring every line to agree.
+export const detectDelimiter = (text: string): string => {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, SNIFF_LINES);
+
+  let best = DELIMITER_CANDIDATES[0];
+  let bestScore = 0;
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const frequency = new Map<number, number>();
+    lines.forEach(line => {
+      const count = countOutsideQuotes(line, delimiter);
+      if (count > 0) frequency.set(count, (frequency.get(count) ?? 0) + 1);
+    });
+
+    frequency.forEach((lineCount, fieldCount) => {
+      const score = lineCount * 1000 + fieldCount;
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    });
+  }
+
+  return best;
+};
+
+// RFC 4180 parser: quoted fields may hold delimiters, newlines and "" escapes.
+export const parseCsv = (text: string, delimiter = detectDelimiter(text)): ScheduleMatrix => {
+  const rows: ScheduleMatrix = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+export const readCsv = (data: ArrayBuffer | Uint8Array): ScheduleMatrix => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  return parseCsv(decodeCsv(bytes));
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { isWeekdayName, isoWeekKey, parseScheduleDate, toDateKey } from './dates';
+
+const key = (value: Parameters<typeof parseScheduleDate>[0]) => {
+  const date = parseScheduleDate(value, 2025);
+  return date && toDateKey(date);
+};
+
+describe('parseScheduleDate', () => {
+  it('reads the header formats the exports use', () => {
+    expect(key('1/6/2025')).toBe('2025-01-06');
+    expect(key('1/6/25')).toBe('2025-01-06');
+    expect(key('1/6')).toBe('2025-01-06');
+    expect(key('Mon 1/6')).toBe('2025-01-06');
+    expect(key('Monday, 1/6/2025')).toBe('2025-01-06');
+    expect(key('Tues. 1/7')).toBe('2025-01-07');
+    expect(key('2025-01-06')).toBe('2025-01-06');
+    expect(key('2025-01-06T00:00:00')).toBe('2025-01-06');
+    expect(key('1-6-2025')).toBe('2025-01-06');
+    expect(key('1.6.2025')).toBe('2025-01-06');
+    expect(key('Jan 6, 2025')).toBe('2025-01-06');
+    expect(key('Mon Jan 6')).toBe('2025-01-06');
+    expect(key('September 3rd')).toBe('2025-09-03');
+    expect(key(new Date(2025, 0, 6))).toBe('2025-01-06');
+  });
+
+  it('leaves route-like cells alone', () => {
+    ['Route 12-3', 'Route 4-10', '10-20', '12-3', 'CX 1/6', 'Monster 1/6', 'Route Jan 5', 'Maybe 5', '1.6', '1-6-25'].forEach(
+      text => expect(parseScheduleDate(text, 2025)).toBeNull()
+    );
+  });
+
+  it('rejects impossible dates and other values', () => {
+    expect(parseScheduleDate('2/30/2025')).toBeNull();
+    expect(parseScheduleDate('13/1')).toBeNull();
+    expect(parseScheduleDate('CX12')).toBeNull();
+    expect(parseScheduleDate(45663)).toBeNull();
+    expect(parseScheduleDate(new Date('nope'))).toBeNull();
+  });
+});
+
+describe('isWeekdayName', () => {
+  it('matches weekday names and abbreviations only', () => {
+    ['Mon', 'MON.', 'Tues', 'Thurs', 'Saturday'].forEach(name => expect(isWeekdayName(name)).toBe(true));
+    ['Monster', 'Satellite', 'CX12', ''].forEach(name => expect(isWeekdayName(name)).toBe(false));
+  });
+});
+
+describe('isoWeekKey', () => {
+  it('uses the ISO week year around new year', () => {
+    expect(isoWeekKey(new Date(2024, 11, 30))).toBe('2025-W01');
+    expect(isoWeekKey(new Date(2025, 0, 6))).toBe('2025-W02');
+  });
+});
@@ -0,0 +1,73 @@
+import { getISOWeek, getISOWeekYear } from 'date-fns';
+import type { CellValue } from './types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "Mon", "Tues", "Thurs", "Wednesday" — not any word that starts like one
+const WEEKDAY = '(?:sun(?:day)?|mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?)';
+
+// Only a weekday may come before the date, so "Route 12-3" or "CX Jan 5" are
+// not dates. Without a year the parts must be split by "/": "10-20" is a route.
+const SLASH_DATE = new RegExp(`^(?:${WEEKDAY}\\.?,?\\s+)?(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?$`, 'i');
+const DASHED_DATE = new RegExp(`^(?:${WEEKDAY}\\.?,?\\s+)?(\\d{1,2})([.-])(\\d{1,2})\\2(\\d{4})$`, 'i');
+const ISO_DATE = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s].*)?$/;
+const MONTH = '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+const MONTH_NAME_DATE = new RegExp(
+  `^(?:${WEEKDAY}\\.?,?\\s+)?${MONTH}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?$`,
+  'i'
+);
+
+const WEEKDAY_NAME = new RegExp(`^${WEEKDAY}\\.?$`, 'i');
+
+const toFullYear = (year: string) => (year.length === 2 ? 2000 + Number(year) : Number(year));
+
+const validDate = (year: number, month: number, day: number): Date | null => {
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Reads a date header the way the exports write it: a Date cell, "1/5/2025",
+// "Mon 1/5", "1-5-2025", "2025-01-05" or "Jan 5, 2025". Headers without a year fall in
+// `referenceYear`. Anything else (route codes, plain numbers) is not a date.
+export const parseScheduleDate = (value: CellValue, referenceYear = new Date().getFullYear()): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+
+  const iso = text.match(ISO_DATE);
+  if (iso) return validDate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const slash = text.match(SLASH_DATE);
+  if (slash) {
+    const year = slash[3] ? toFullYear(slash[3]) : referenceYear;
+    return validDate(year, Number(slash[1]), Number(slash[2]));
+  }
+
+  const dashed = text.match(DASHED_DATE);
+  if (dashed) return validDate(Number(dashed[4]), Number(dashed[1]), Number(dashed[3]));
+
+  const named = text.match(MONTH_NAME_DATE);
+  if (named) {
+    const month = MONTHS.indexOf(named[1].slice(0, 3).toLowerCase()) + 1;
+    return validDate(named[3] ? Number(named[3]) : referenceYear, month, Number(named[2]));
+  }
+
+  return null;
+};
+
+export const isDateLike = (value: CellValue): boolean => parseScheduleDate(value) !== null;
+
+// "Mon", "Monday", "MON." — the weekday row some exports put under the dates.
+export const isWeekdayName = (value: CellValue): boolean =>
+  typeof value === 'string' && WEEKDAY_NAME.test(value.trim());
+
+// "2025-01-05" — a stable key for lining up dates from different files.
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const isWeekend = (date: Date): boolean => date.getDay() === 0 || date.getDay() === 6;
+
+// "2025-W02" — sorts in calendar order.
+export const isoWeekKey = (date: Date): string =>
+  `${getISOWeekYear(date)}-W${String(getISOWeek(date)).padStart(2, '0')}`;
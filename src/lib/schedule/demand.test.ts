@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { computeDemandGaps, demandForDate, stationKey, summarizeGaps } from './demand';
+import type { DailyCount } from './types';
+
+const counts: DailyCount[] = [
+  { date: 'Mon 1/6', rawDate: '1/6/2025', column: 2, count: 4 },
+  { date: 'Tue 1/7', rawDate: '1/7/2025', column: 3, count: 6 },
+  { date: 'Notes', rawDate: 'Notes', column: 4, count: 1 },
+];
+
+describe('stationKey', () => {
+  it('keeps same-named stations of different companies apart', () => {
+    expect(stationKey({ companyName: 'Acme Logistics', stationName: 'DXX1' })).not.toBe(
+      stationKey({ companyName: 'Other DSP', stationName: 'DXX1' })
+    );
+  });
+});
+
+describe('demandForDate', () => {
+  // Saved demand comes back from JSON with string weekday keys
+  const demand = JSON.parse(JSON.stringify({ weekdayDefaults: { 1: 5 }, dates: { '2025-01-13': 8 } }));
+
+  it('prefers the date override over the weekday default', () => {
+    expect(demandForDate(demand, new Date(2025, 0, 6))).toBe(5);
+    expect(demandForDate(demand, new Date(2025, 0, 13))).toBe(8);
+    expect(demandForDate(demand, new Date(2025, 0, 7))).toBeNull();
+  });
+});
+
+describe('computeDemandGaps', () => {
+  it('compares each dated column with its demand', () => {
+    const gaps = computeDemandGaps(counts, { weekdayDefaults: { 1: 5, 2: 5 }, dates: {} });
+    expect(gaps.map(item => [item.demand, item.gap])).toEqual([
+      [5, -1],
+      [5, 1],
+      [null, null],
+    ]);
+    expect(summarizeGaps(gaps)).toMatchObject({ shortfall: 1, surplus: 1, net: 0, daysShort: 1 });
+  });
+});
@@ -0,0 +1,76 @@
+import { getISOWeek } from 'date-fns';
+import { isoWeekKey, parseScheduleDate, toDateKey } from './dates';
+import type { DailyCount, FileInfo } from './types';
+
+/** Routes a station needs: a default per weekday (0 = Sunday) plus overrides for specific dates. */
+export interface StationDemand {
+  weekdayDefaults: Record<number, number>;
+  dates: Record<string, number>;
+}
+
+/** `stationKey` -> demand. */
+export type DemandByStation = Record<string, StationDemand>;
+
+export interface DemandGap extends DailyCount {
+  demand: number | null;
+  /** Scheduled minus demand: negative is a shortfall, positive a surplus. */
+  gap: number | null;
+}
+
+export interface GapSummary {
+  key: string;
+  label: string;
+  shortfall: number;
+  surplus: number;
+  net: number;
+  daysShort: number;
+}
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Station names repeat across companies, so demand is keyed by both.
+export const stationKey = ({ companyName, stationName }: FileInfo): string => `${companyName}/${stationName}`;
+
+export const emptyDemand = (): StationDemand => ({ weekdayDefaults: {}, dates: {} });
+
+export const hasDemand = (demand: StationDemand | undefined): boolean =>
+  !!demand && (Object.keys(demand.weekdayDefaults).length > 0 || Object.keys(demand.dates).length > 0);
+
+// A date override wins over the weekday default.
+export const demandForDate = (demand: StationDemand | undefined, date: Date | null): number | null => {
+  if (!demand || !date) return null;
+  return demand.dates[toDateKey(date)] ?? demand.weekdayDefaults[date.getDay()] ?? null;
+};
+
+export const computeDemandGaps = (counts: DailyCount[], demand: StationDemand | undefined): DemandGap[] =>
+  counts.map(item => {
+    const required = demandForDate(demand, parseScheduleDate(item.rawDate));
+    return { ...item, demand: required, gap: required === null ? null : item.count - required };
+  });
+
+const summarize = (key: string, label: string, gaps: DemandGap[]): GapSummary => {
+  const withDemand = gaps.filter(item => item.gap !== null);
+  const shortfall = withDemand.reduce((sum, item) => sum + Math.max(-item.gap!, 0), 0);
+  const surplus = withDemand.reduce((sum, item) => sum + Math.max(item.gap!, 0), 0);
+  return { key, label, shortfall, surplus, net: surplus - shortfall, daysShort: withDemand.filter(item => item.gap! < 0).length };
+};
+
+export const summarizeGaps = (gaps: DemandGap[]): GapSummary => summarize('all', 'Total', gaps);
+
+// Gap totals per ISO week, in date order. Undated columns have no demand and are skipped.
+export const summarizeGapsByWeek = (gaps: DemandGap[]): GapSummary[] => {
+  const weeks = new Map<string, { label: string; gaps: DemandGap[] }>();
+
+  gaps.forEach(item => {
+    const date = parseScheduleDate(item.rawDate);
+    if (!date) return;
+    const key = isoWeekKey(date);
+    const week = weeks.get(key) ?? { label: `Week ${getISOWeek(date)}`, gaps: [] };
+    week.gaps.push(item);
+    weeks.set(key, week);
+  });
+
+  return Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, week]) => summarize(key, week.label, week.gaps));
+};
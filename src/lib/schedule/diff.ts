@@ -0,0 +1,112 @@
+import { parseScheduleDate, toDateKey } from './dates';
+import { processExcelData } from './extract';
+import type { ScheduleLayout } from './layout';
+import { buildRoster, driverLabel, type RosterDriver } from './roster';
+import { alignCountsByDate } from './series';
+import type { CellValue, ScheduleMatrix, WordFilterState } from './types';
+
+// One side of a comparison: a sheet and the layout it was parsed with.
+export interface DiffSource {
+  rawData: ScheduleMatrix;
+  layout: ScheduleLayout;
+}
+
+export type DriverDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// Undefined when that side has no such date column (or, for the driver, no such row).
+export interface CellDiff {
+  before: string | undefined;
+  after: string | undefined;
+  changed: boolean;
+}
+
+export interface DriverDiff {
+  key: string;
+  label: string;
+  driverId: string;
+  status: DriverDiffStatus;
+  // Date key -> cell
+  cells: Record<string, CellDiff>;
+}
+
+export interface DateDiff {
+  key: string;
+  label: string;
+  before: number | null;
+  after: number | null;
+  delta: number;
+}
+
+export interface ScheduleDiff {
+  dates: DateDiff[];
+  drivers: DriverDiff[];
+  addedDrivers: number;
+  removedDrivers: number;
+  changedCells: number;
+}
+
+// Drivers are matched on their ID when the sheet has one, otherwise on their name.
+const driverKey = (driver: RosterDriver) =>
+  driver.driverId ? `id:${driver.driverId}` : `name:${driverLabel(driver).toLowerCase()}`;
+
+// Same key alignCountsByDate uses, so cells line up with the count deltas.
+const columnKey = (rawDate: CellValue, label: string) => {
+  const date = parseScheduleDate(rawDate);
+  return date ? toDateKey(date) : `undated:${label}`;
+};
+
+const driverCells = (source: DiffSource) =>
+  new Map(
+    buildRoster(source.rawData, {}, source.layout).map(driver => [
+      driverKey(driver),
+      { driver, words: new Map(driver.assignments.map(a => [columnKey(a.rawDate, a.date), a.word])) },
+    ])
+  );
+
+// Compares two versions of a schedule. Only cells both versions have can change;
+// dates or drivers present on one side only show up as added or removed instead.
+export const diffSchedules = (before: DiffSource, after: DiffSource, wordFilterState: WordFilterState): ScheduleDiff => {
+  const axis = alignCountsByDate([
+    { id: 'before', counts: processExcelData(before.rawData, wordFilterState, before.layout).counts },
+    { id: 'after', counts: processExcelData(after.rawData, wordFilterState, after.layout).counts },
+  ]);
+  const dates: DateDiff[] = axis.map(point => ({
+    key: point.key,
+    label: point.label,
+    before: point.values.before ?? null,
+    after: point.values.after ?? null,
+    delta: (point.values.after ?? 0) - (point.values.before ?? 0),
+  }));
+
+  const beforeDrivers = driverCells(before);
+  const afterDrivers = driverCells(after);
+  const keys = [...afterDrivers.keys(), ...[...beforeDrivers.keys()].filter(key => !afterDrivers.has(key))];
+
+  const drivers = keys.map(key => {
+    const was = beforeDrivers.get(key);
+    const is = afterDrivers.get(key);
+    const cells: Record<string, CellDiff> = {};
+    let changes = 0;
+    dates.forEach(({ key: dateKey }) => {
+      const cell = { before: was?.words.get(dateKey), after: is?.words.get(dateKey), changed: false };
+      cell.changed = !!was && !!is && cell.before !== undefined && cell.after !== undefined && cell.before !== cell.after;
+      if (cell.changed) changes++;
+      cells[dateKey] = cell;
+    });
+
+    const { driver } = (is ?? was)!;
+    const status: DriverDiffStatus = !was ? 'added' : !is ? 'removed' : changes > 0 ? 'changed' : 'unchanged';
+    return { key, label: driverLabel(driver), driverId: driver.driverId, status, cells };
+  });
+
+  return {
+    dates,
+    drivers,
+    addedDrivers: drivers.filter(driver => driver.status === 'added').length,
+    removedDrivers: drivers.filter(driver => driver.status === 'removed').length,
+    changedCells: drivers.reduce(
+      (sum, driver) => sum + Object.values(driver.cells).filter(cell => cell.changed).length,
+      0
+    ),
+  };
+};
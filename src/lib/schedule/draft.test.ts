@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { AMAZON_EXPORT } from './__fixtures__/amazon-export';
+import { DEFAULT_COMPLIANCE_LIMITS } from './compliance';
+import { parseScheduleDate, toDateKey } from './dates';
+import {
+  availabilityOn,
+  draftDriversFromRoster,
+  draftWorkbook,
+  generateDraftSchedule,
+  type DraftDriver,
+  type DraftInput,
+} from './draft';
+import { writeWorkbook } from './export';
+import { extractFileInfo, processExcelData } from './extract';
+import { withDefaultFilterState } from './filters';
+import { BLANK_WORD, DEFAULT_LAYOUT, detectLayout } from './layout';
+import { readScheduleWorkbook } from './parse';
+import { buildRoster } from './roster';
+
+const driver = (name: string, overrides: Partial<DraftDriver> = {}): DraftDriver => ({
+  name,
+  driverId: name[0],
+  weekdays: {},
+  unavailableDates: [],
+  ...overrides,
+});
+
+// Monday 1/6/2025 to Sunday 1/12/2025, two routes a day
+const week = (drivers: DraftDriver[]): DraftInput => ({
+  companyName: 'Acme Logistics',
+  stationName: 'DXX1',
+  startDate: new Date(2025, 0, 6),
+  dayCount: 7,
+  demand: { weekdayDefaults: { 0: 2, 1: 2, 2: 2, 3: 2, 4: 2, 5: 2, 6: 2 }, dates: {} },
+  drivers,
+  limits: DEFAULT_COMPLIANCE_LIMITS,
+  assignmentWord: 'CX12',
+});
+
+describe('availabilityOn', () => {
+  it('lets a date off win over the weekday preference', () => {
+    const alice = driver('Alice', { weekdays: { 1: 'prefers-off' }, unavailableDates: ['2025-01-13'] });
+    expect(availabilityOn(alice, new Date(2025, 0, 6))).toBe('prefers-off');
+    expect(availabilityOn(alice, new Date(2025, 0, 13))).toBe('unavailable');
+    expect(availabilityOn(alice, new Date(2025, 0, 7))).toBe('available');
+  });
+});
+
+describe('draftDriversFromRoster', () => {
+  it('takes weekdays a driver never worked as preferred days off', () => {
+    const roster = buildRoster(AMAZON_EXPORT, { [BLANK_WORD]: false }, detectLayout(AMAZON_EXPORT).layout);
+    const alice = draftDriversFromRoster(roster)[0];
+    expect(alice).toEqual({ name: 'Alice Smith', driverId: 'A1', weekdays: { 3: 'prefers-off' }, unavailableDates: [] });
+  });
+});
+
+describe('generateDraftSchedule', () => {
+  it('never schedules a driver on a date they cannot work', () => {
+    const drivers = ['Alice', 'Bob', 'Cara'].map(name => driver(name));
+    drivers[0].unavailableDates = ['2025-01-07', '2025-01-08'];
+    const draft = generateDraftSchedule(week(drivers));
+
+    const aliceRow = draft.rawData[4];
+    expect(aliceRow[3]).toBeNull();
+    expect(aliceRow[4]).toBeNull();
+    expect(draft.shortfall).toBe(0);
+  });
+
+  it('stays within the fatigue limits and reports what it cannot fill', () => {
+    const draft = generateDraftSchedule(week([driver('Alice'), driver('Bob')]));
+    expect(draft.shifts).toEqual([5, 5]);
+    expect(draft.shortfall).toBe(4);
+  });
+
+  it('fills preferred days off last and counts them', () => {
+    const drivers = [driver('Alice', { weekdays: { 1: 'prefers-off' } }), driver('Bob'), driver('Cara')];
+    const draft = generateDraftSchedule({ ...week(drivers), dayCount: 1 });
+    expect(draft.rawData[4][2]).toBeNull();
+    expect(draft.preferenceMisses).toBe(0);
+  });
+});
+
+describe('draftWorkbook', () => {
+  it('reads back as a standard schedule with the drafted counts', async () => {
+    const draft = generateDraftSchedule(week(['Alice', 'Bob', 'Cara'].map(name => driver(name))));
+    const data = readScheduleWorkbook(await writeWorkbook(draftWorkbook(draft)).arrayBuffer());
+
+    const detection = detectLayout(data);
+    expect(detection.kind).toBe('standard');
+    expect(detection.layout).toEqual(DEFAULT_LAYOUT);
+    expect(extractFileInfo(data, detection.layout)).toEqual({ companyName: 'Acme Logistics', stationName: 'DXX1' });
+
+    const state = withDefaultFilterState({}, ['CX12', BLANK_WORD]);
+    const { counts } = processExcelData(data, state, detection.layout);
+    expect(counts.map(item => toDateKey(parseScheduleDate(item.rawDate)!))).toEqual(draft.days.map(day => day.key));
+    expect(counts.map(item => item.count)).toEqual(draft.days.map(day => day.assigned));
+  });
+});
@@ -0,0 +1,169 @@
+import * as XLSX from 'xlsx';
+import { addDays, format } from 'date-fns';
+import type { ComplianceLimits } from './compliance';
+import { isoWeekKey, parseScheduleDate, toDateKey } from './dates';
+import { demandForDate, type StationDemand } from './demand';
+import { DEFAULT_LAYOUT } from './layout';
+import type { RosterDriver } from './roster';
+import type { CellValue, ScheduleMatrix } from './types';
+
+export type DayAvailability = 'available' | 'prefers-off' | 'unavailable';
+
+export interface DraftDriver {
+  name: string;
+  driverId: string;
+  /** Weekday (0 = Sunday) -> availability; missing weekdays are available. */
+  weekdays: Partial<Record<number, DayAvailability>>;
+  /** Date keys the driver cannot work, e.g. approved time off. */
+  unavailableDates: string[];
+}
+
+export interface DraftInput {
+  companyName: string;
+  stationName: string;
+  startDate: Date;
+  dayCount: number;
+  demand: StationDemand | undefined;
+  drivers: DraftDriver[];
+  limits: ComplianceLimits;
+  /** Written into every assigned cell. */
+  assignmentWord: string;
+}
+
+export interface DraftDay {
+  date: Date;
+  key: string;
+  demand: number;
+  assigned: number;
+}
+
+export interface DraftSchedule {
+  rawData: ScheduleMatrix;
+  days: DraftDay[];
+  /** Driver index -> dates worked, in input order. */
+  shifts: number[];
+  shortfall: number;
+  /** Days a driver works that they asked to have off. */
+  preferenceMisses: number;
+}
+
+export const DRAFT_DATE_FORMAT = 'M/d/yyyy';
+
+export const availabilityOn = (driver: DraftDriver, date: Date): DayAvailability =>
+  driver.unavailableDates.includes(toDateKey(date)) ? 'unavailable' : (driver.weekdays[date.getDay()] ?? 'available');
+
+// Drivers come from an existing schedule's rows. A weekday they never worked
+// there is taken as one they prefer to have off.
+export const draftDriversFromRoster = (roster: RosterDriver[]): DraftDriver[] =>
+  roster
+    .filter(driver => driver.name || driver.driverId)
+    .map(driver => {
+      const seen = new Set<number>();
+      const workedOn = new Set<number>();
+      driver.assignments.forEach(assignment => {
+        const date = parseScheduleDate(assignment.rawDate);
+        if (!date) return;
+        seen.add(date.getDay());
+        if (assignment.counted) workedOn.add(date.getDay());
+      });
+      const weekdays: DraftDriver['weekdays'] = {};
+      // A driver with no shifts at all says nothing about their preferences
+      if (workedOn.size > 0) {
+        seen.forEach(weekday => {
+          if (!workedOn.has(weekday)) weekdays[weekday] = 'prefers-off';
+        });
+      }
+      return { name: driver.name, driverId: driver.driverId, weekdays, unavailableDates: [] };
+    });
+
+// Would working `index` (a day number in the draft) break a limit, given the days already worked?
+const withinLimits = (worked: boolean[], dates: Date[], index: number, limits: ComplianceLimits) => {
+  let streak = 1;
+  for (let day = index - 1; day >= 0 && worked[day]; day--) streak++;
+  if (streak > limits.maxConsecutiveDays) return false;
+
+  const week = isoWeekKey(dates[index]);
+  const inWeek = dates.filter((date, day) => worked[day] && isoWeekKey(date) === week).length + 1;
+  if (inWeek > limits.maxDaysPerWeek) return false;
+
+  // Every 7-day window holding this day must keep its rest days; only windows
+  // inside the draft are checked, days before it are unknown
+  for (let start = Math.max(index - 6, 0); start <= index && start + 6 < dates.length; start++) {
+    let workedDays = 0;
+    for (let day = start; day < start + 7; day++) if (worked[day] || day === index) workedDays++;
+    if (7 - workedDays < limits.minRestDays) return false;
+  }
+  return true;
+};
+
+// Fills each day in order. Among the drivers who are free and stay within the
+// limits, whoever has worked the fewest days so far goes first, so the routes
+// spread evenly; drivers who prefer the day off only fill what is left. Ties
+// rotate with the day, so the same driver doesn't always win.
+export const generateDraftSchedule = (input: DraftInput): DraftSchedule => {
+  const { drivers, limits } = input;
+  const dates = Array.from({ length: input.dayCount }, (_, day) => addDays(input.startDate, day));
+  const worked = drivers.map(() => dates.map(() => false));
+  const shifts = drivers.map(() => 0);
+  let preferenceMisses = 0;
+
+  const days = dates.map((date, day): DraftDay => {
+    const required = demandForDate(input.demand, date) ?? 0;
+    const rotation = (index: number) => (((index - day) % drivers.length) + drivers.length) % drivers.length;
+    const candidates = drivers
+      .map((driver, index) => ({ index, availability: availabilityOn(driver, date) }))
+      .filter(({ index, availability }) => availability !== 'unavailable' && withinLimits(worked[index], dates, day, limits))
+      .sort(
+        (a, b) =>
+          Number(a.availability === 'prefers-off') - Number(b.availability === 'prefers-off') ||
+          shifts[a.index] - shifts[b.index] ||
+          rotation(a.index) - rotation(b.index)
+      )
+      .slice(0, required);
+
+    candidates.forEach(({ index, availability }) => {
+      worked[index][day] = true;
+      shifts[index]++;
+      if (availability === 'prefers-off') preferenceMisses++;
+    });
+
+    return { date, key: toDateKey(date), demand: required, assigned: candidates.length };
+  });
+
+  return {
+    rawData: draftMatrix(input, dates, worked),
+    days,
+    shifts,
+    shortfall: days.reduce((sum, day) => sum + Math.max(day.demand - day.assigned, 0), 0),
+    preferenceMisses,
+  };
+};
+
+// The standard export layout, which detectLayout recognizes as is: company and
+// station on row 1, dates on row 3, one driver per row below.
+const draftMatrix = (input: DraftInput, dates: Date[], worked: boolean[][]): ScheduleMatrix => {
+  const { infoRow, companyColumn, stationColumn, dateRow, firstDateColumn, firstAssignmentRow } = DEFAULT_LAYOUT;
+  const rows: CellValue[][] = Array.from({ length: firstAssignmentRow }, () => []);
+  // Something has to sit in the first row, or the written sheet starts lower and reads back shifted
+  rows[0][0] = 'Draft schedule';
+  rows[infoRow][companyColumn] = input.companyName;
+  rows[infoRow][stationColumn] = input.stationName;
+  rows[dateRow] = ['Driver', 'Driver ID'];
+  dates.forEach((date, day) => (rows[dateRow][firstDateColumn + day] = format(date, DRAFT_DATE_FORMAT)));
+
+  input.drivers.forEach((driver, index) => {
+    const row: CellValue[] = [driver.name, driver.driverId];
+    worked[index].forEach((isWorked, day) => (row[firstDateColumn + day] = isWorked ? input.assignmentWord : null));
+    rows.push(row);
+  });
+  return rows;
+};
+
+export const draftWorkbook = (draft: DraftSchedule): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(draft.rawData), 'Schedule');
+  return workbook;
+};
+
+export const draftFileName = (stationName: string, startDate: Date) =>
+  `draft-${stationName.replace(/[^\w-]+/g, '-').toLowerCase()}-${toDateKey(startDate)}.xlsx`;
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AMAZON_EXPORT } from './__fixtures__/amazon-export';
+import {
+  MAX_EDIT_HISTORY,
+  clearScheduleCell,
+  countEditedCells,
+  moveScheduleCell,
+  pushEdit,
+  redoEdit,
+  setScheduleCell,
+  startEditHistory,
+  undoEdit,
+} from './edit';
+
+// Alice Smith's Monday and Wednesday, and Dan Wu's Monday
+const ALICE_MON = { row: 4, column: 2 };
+const ALICE_WED = { row: 4, column: 4 };
+const DAN_MON = { row: 7, column: 2 };
+
+describe('setScheduleCell', () => {
+  it('copies only the edited row', () => {
+    const edited = setScheduleCell(AMAZON_EXPORT, ALICE_MON, ' CX14 ');
+    expect(edited[4]).toEqual(['Alice Smith', 'A1', 'CX14', 'CX12', '']);
+    expect(edited[5]).toBe(AMAZON_EXPORT[5]);
+    expect(AMAZON_EXPORT[4][2]).toBe('CX12');
+  });
+
+  it('clears blank text and pads short rows', () => {
+    expect(setScheduleCell(AMAZON_EXPORT, ALICE_MON, '  ')[4][2]).toBeNull();
+    expect(setScheduleCell(AMAZON_EXPORT, { row: 4, column: 6 }, 'CX12')[4]).toEqual([
+      'Alice Smith',
+      'A1',
+      'CX12',
+      'CX12',
+      '',
+      null,
+      'CX12',
+    ]);
+  });
+
+  it('returns the same matrix when nothing changes', () => {
+    expect(setScheduleCell(AMAZON_EXPORT, ALICE_MON, 'CX12')).toBe(AMAZON_EXPORT);
+  });
+});
+
+describe('moveScheduleCell', () => {
+  it('moves onto a blank and swaps with an assignment', () => {
+    const moved = moveScheduleCell(AMAZON_EXPORT, ALICE_MON, DAN_MON);
+    expect([moved[4][2], moved[7][2]]).toEqual([null, 'CX12']);
+
+    const swapped = moveScheduleCell(AMAZON_EXPORT, { row: 5, column: 4 }, { row: 6, column: 3 });
+    expect([swapped[5][4], swapped[6][3]]).toEqual(['Route 4-10', 'CX14']);
+  });
+
+  it('leaves a drop onto itself alone', () => {
+    expect(moveScheduleCell(AMAZON_EXPORT, ALICE_MON, ALICE_MON)).toBe(AMAZON_EXPORT);
+  });
+});
+
+describe('countEditedCells', () => {
+  it('treats cleared and empty cells as the same word', () => {
+    const edited = clearScheduleCell(setScheduleCell(AMAZON_EXPORT, ALICE_MON, 'CX14'), ALICE_WED);
+    expect(countEditedCells(AMAZON_EXPORT, edited, [ALICE_MON, ALICE_WED, DAN_MON])).toBe(1);
+  });
+});
+
+describe('edit history', () => {
+  it('undoes and redoes, and a new edit drops the redo steps', () => {
+    const first = setScheduleCell(AMAZON_EXPORT, ALICE_MON, 'CX14');
+    const second = setScheduleCell(first, ALICE_WED, 'CX14');
+    let history = pushEdit(pushEdit(startEditHistory(AMAZON_EXPORT), first), second);
+
+    history = undoEdit(undoEdit(history));
+    expect(history.present).toBe(AMAZON_EXPORT);
+    expect(undoEdit(history)).toBe(history);
+
+    history = redoEdit(history);
+    expect(history.present).toBe(first);
+
+    history = pushEdit(history, clearScheduleCell(first, DAN_MON));
+    expect(history.future).toEqual([]);
+    expect(redoEdit(history)).toBe(history);
+  });
+
+  it('skips no-op edits and keeps at most MAX_EDIT_HISTORY steps', () => {
+    const start = startEditHistory(AMAZON_EXPORT);
+    expect(pushEdit(start, AMAZON_EXPORT)).toBe(start);
+
+    let history = start;
+    for (let i = 0; i <= MAX_EDIT_HISTORY; i++) history = pushEdit(history, setScheduleCell(history.present, ALICE_MON, `CX${i}`));
+    expect(history.past).toHaveLength(MAX_EDIT_HISTORY);
+    expect(history.past[0]).not.toBe(AMAZON_EXPORT);
+  });
+});
@@ -0,0 +1,70 @@
+import { cellWord } from './extract';
+import type { CellValue, ScheduleMatrix } from './types';
+
+/** One assignment cell, by 0-based sheet row and column. */
+export interface CellAddress {
+  row: number;
+  column: number;
+}
+
+export interface EditHistory {
+  past: ScheduleMatrix[];
+  present: ScheduleMatrix;
+  future: ScheduleMatrix[];
+}
+
+// Older steps are dropped past this; each one only copies the rows it touched
+export const MAX_EDIT_HISTORY = 100;
+
+const sameCell = (a: CellAddress, b: CellAddress) => a.row === b.row && a.column === b.column;
+
+// Returns a new matrix; rows other than the edited one are shared with the old one.
+// Blank or whitespace-only text clears the cell.
+export const setScheduleCell = (data: ScheduleMatrix, { row, column }: CellAddress, value: CellValue): ScheduleMatrix => {
+  const text = typeof value === 'string' ? value.trim() : value;
+  const cell = text === '' ? null : (text ?? null);
+  if ((data[row]?.[column] ?? null) === cell) return data;
+
+  const next = [...data];
+  const edited = Array.from({ length: Math.max(data[row]?.length ?? 0, column + 1) }, (_, i) => data[row]?.[i] ?? null);
+  edited[column] = cell;
+  next[row] = edited;
+  return next;
+};
+
+export const clearScheduleCell = (data: ScheduleMatrix, cell: CellAddress): ScheduleMatrix =>
+  setScheduleCell(data, cell, null);
+
+// Dropping onto another assignment swaps the two; dropping onto a blank moves it.
+export const moveScheduleCell = (data: ScheduleMatrix, from: CellAddress, to: CellAddress): ScheduleMatrix => {
+  if (sameCell(from, to)) return data;
+  const moving = data[from.row]?.[from.column] ?? null;
+  const replaced = data[to.row]?.[to.column] ?? null;
+  return setScheduleCell(setScheduleCell(data, to, moving), from, replaced);
+};
+
+// Assignment cells whose word differs between the two versions
+export const countEditedCells = (original: ScheduleMatrix, edited: ScheduleMatrix, cells: CellAddress[]) =>
+  cells.filter(({ row, column }) => cellWord(original[row]?.[column]) !== cellWord(edited[row]?.[column])).length;
+
+export const startEditHistory = (data: ScheduleMatrix): EditHistory => ({ past: [], present: data, future: [] });
+
+// An edit that changes nothing leaves the history as it was, so undo doesn't step through no-ops
+export const pushEdit = (history: EditHistory, data: ScheduleMatrix): EditHistory =>
+  data === history.present
+    ? history
+    : { past: [...history.past, history.present].slice(-MAX_EDIT_HISTORY), present: data, future: [] };
+
+export const undoEdit = (history: EditHistory): EditHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+};
+
+export const redoEdit = (history: EditHistory): EditHistory => {
+  if (history.future.length === 0) return history;
+  return { past: [...history.past, history.present], present: history.future[0], future: history.future.slice(1) };
+};
@@ -0,0 +1,109 @@
+import * as XLSX from 'xlsx';
+import { extractUniqueWords } from './extract';
+import { formatWordLabel } from './format';
+import { FILTER_RULE_KINDS, type FilterRule } from './rules';
+import { buildRoster } from './roster';
+import { alignCountsByDate } from './series';
+import { parseScheduleDate, toDateKey } from './dates';
+import { BLANK_WORD } from './layout';
+import type { CellValue, ScheduleFile, WordFilterState } from './types';
+
+// A file as it is counted on screen: its counts already reflect wordFilterState.
+export interface ExportedFile {
+  file: ScheduleFile;
+  wordFilterState: WordFilterState;
+  // Where the file's filter came from, e.g. "Global filters" or "Preset: Standard"
+  filterLabel: string;
+}
+
+type SheetRow = CellValue[];
+
+const fileLabel = ({ stationName, fileName, sheetName }: ScheduleFile) =>
+  `${stationName} — ${fileName}${sheetName ? ` › ${sheetName}` : ''}`;
+
+// Same key alignCountsByDate uses, so roster cells land in the matching date column.
+const dateKey = (rawDate: CellValue, label: string) => {
+  const date = parseScheduleDate(rawDate);
+  return date ? toDateKey(date) : `undated:${label}`;
+};
+
+// One row per date on the shared axis, one column per file, plus totals both ways.
+const countsSheet = (files: ExportedFile[]): SheetRow[] => {
+  const axis = alignCountsByDate(files.map(({ file }) => file));
+  const rows: SheetRow[] = [['Date', ...files.map(({ file }) => fileLabel(file)), 'Total']];
+  axis.forEach(point => {
+    const values = files.map(({ file }) => point.values[file.id] ?? null);
+    rows.push([point.label, ...values, values.reduce<number>((sum, value) => sum + (value ?? 0), 0)]);
+  });
+  const totals = files.map(({ file }) => file.counts.reduce((sum, item) => sum + item.count, 0));
+  rows.push(['Total', ...totals, totals.reduce((sum, value) => sum + value, 0)]);
+  return rows;
+};
+
+const rosterSheet = (files: ExportedFile[]): SheetRow[] => {
+  const axis = alignCountsByDate(files.map(({ file }) => file));
+  const rows: SheetRow[] = [
+    ['Company', 'Station', 'File', 'Driver', 'Driver ID', 'Shifts Worked', 'Days Off', ...axis.map(point => point.label)],
+  ];
+  files.forEach(({ file, wordFilterState }) => {
+    buildRoster(file.rawData, wordFilterState, file.layoutDetection.layout).forEach(driver => {
+      const byKey = new Map(driver.assignments.map(a => [dateKey(a.rawDate, a.date), a.word]));
+      rows.push([
+        file.companyName,
+        file.stationName,
+        file.fileName,
+        driver.name,
+        driver.driverId,
+        driver.shiftsWorked,
+        driver.daysOff,
+        ...axis.map(point => {
+          const word = byKey.get(point.key);
+          return word === undefined || word === BLANK_WORD ? null : word;
+        }),
+      ]);
+    });
+  });
+  return rows;
+};
+
+// Enough to reproduce every number in the workbook: each file's filter source,
+// the global rules and whether each word was counted for each file.
+const filtersSheet = (files: ExportedFile[], rules: FilterRule[], exportedAt: Date): SheetRow[] => {
+  const kindLabel = (kind: FilterRule['kind']) => FILTER_RULE_KINDS.find(item => item.kind === kind)?.label ?? kind;
+  const words = Array.from(
+    new Set(files.flatMap(({ file }) => extractUniqueWords(file.rawData, file.layoutDetection.layout)))
+  ).sort();
+
+  return [
+    ['Exported', exportedAt.toISOString()],
+    [],
+    ['File', 'Company', 'Station', 'Filter'],
+    ...files.map(({ file, filterLabel }) => [fileLabel(file), file.companyName, file.stationName, filterLabel]),
+    [],
+    ['Global rules (first match wins)'],
+    ['#', 'Action', 'Match', 'Pattern'],
+    ...rules.map((rule, index) => [index + 1, rule.action, kindLabel(rule.kind), rule.kind === 'numeric' ? null : formatWordLabel(rule.pattern)]),
+    [],
+    ['Word', ...files.map(({ file }) => fileLabel(file))],
+    ...words.map(word => [
+      formatWordLabel(word),
+      ...files.map(({ wordFilterState }) => (wordFilterState[word] === false ? 'Excluded' : 'Counted')),
+    ]),
+  ];
+};
+
+export const buildCountsWorkbook = (files: ExportedFile[], rules: FilterRule[], exportedAt: Date = new Date()): XLSX.WorkBook => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(countsSheet(files)), 'Counts');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rosterSheet(files)), 'Roster');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(filtersSheet(files, rules, exportedAt)), 'Filters');
+  return workbook;
+};
+
+export const countsWorkbookFileName = (exportedAt: Date = new Date()) =>
+  `schedule-counts-${exportedAt.toISOString().slice(0, 10)}.xlsx`;
+
+export const writeWorkbook = (workbook: XLSX.WorkBook): Blob =>
+  new Blob([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })], {
+    type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  });
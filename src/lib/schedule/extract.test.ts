@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { AMAZON_EXPORT, BANNER_EXPORT } from './__fixtures__/amazon-export';
+import { extractFileInfo, extractUniqueWords, getDateColumns, processExcelData } from './extract';
+import { withDefaultFilterState } from './filters';
+import { BLANK_WORD, DEFAULT_LAYOUT, type ScheduleLayout } from './layout';
+
+const BANNER_LAYOUT: ScheduleLayout = { ...DEFAULT_LAYOUT, infoRow: 2, dateRow: 4, firstAssignmentRow: 6 };
+
+describe('extractFileInfo', () => {
+  it('reads company and station from columns 1 and 2 of row 1', () => {
+    expect(extractFileInfo(AMAZON_EXPORT)).toEqual({ companyName: 'Acme Logistics', stationName: 'DXX1' });
+  });
+
+  it('falls back to placeholders when row 1 is empty', () => {
+    expect(extractFileInfo([['Associate schedule'], []])).toEqual({
+      companyName: 'Unknown Company',
+      stationName: 'Unknown Station',
+    });
+  });
+
+  it('follows the layout when the info row moves', () => {
+    expect(extractFileInfo(BANNER_EXPORT, BANNER_LAYOUT)).toEqual({ companyName: 'Acme Logistics', stationName: 'DXX1' });
+  });
+});
+
+describe('getDateColumns', () => {
+  it('takes row 3 from column 2 on', () => {
+    expect(getDateColumns(AMAZON_EXPORT).map(({ column, rawDate }) => [column, rawDate])).toEqual([
+      [2, '1/6/2025'],
+      [3, '1/7/2025'],
+      [4, '1/8/2025'],
+    ]);
+  });
+
+  it('skips columns without a header', () => {
+    const data = AMAZON_EXPORT.map((row, index) => (index === 3 ? ['Driver', 'ID', '1/6/2025', '', '1/8/2025'] : row));
+    expect(getDateColumns(data).map(column => column.column)).toEqual([2, 4]);
+  });
+
+  it('finds nothing in a sheet shorter than the layout', () => {
+    expect(getDateColumns(AMAZON_EXPORT.slice(0, 3))).toEqual([]);
+  });
+});
+
+describe('extractUniqueWords', () => {
+  it('collects every assignment from row 4 on, blanks included', () => {
+    expect(extractUniqueWords(AMAZON_EXPORT)).toEqual(
+      [
+        '5',
+        'CX12',
+        'CX14',
+        'DSP Initiated Work - Training',
+        'Route 10-20',
+        'Route 12-3',
+        'Route 4-10',
+        BLANK_WORD,
+      ].sort()
+    );
+  });
+
+  it('ignores the driver columns and the rows above the dates', () => {
+    const words = extractUniqueWords(AMAZON_EXPORT);
+    ['Alice Smith', 'A1', '1/6/2025', 'Acme Logistics', 'DXX1'].forEach(word => expect(words).not.toContain(word));
+  });
+
+  it('skips weekday rows under a shifted header', () => {
+    expect(extractUniqueWords(BANNER_EXPORT, BANNER_LAYOUT)).toEqual(['CX12', 'CX14', BLANK_WORD].sort());
+  });
+});
+
+describe('processExcelData', () => {
+  const defaults = withDefaultFilterState({}, extractUniqueWords(AMAZON_EXPORT));
+
+  it('counts the cells the default rules allow per date', () => {
+    const { counts } = processExcelData(AMAZON_EXPORT, defaults);
+    expect(counts.map(({ column, count }) => [column, count])).toEqual([
+      [2, 2],
+      [3, 3],
+      [4, 3],
+    ]);
+  });
+
+  it('formats each date header for display', () => {
+    const { counts } = processExcelData(AMAZON_EXPORT, defaults);
+    expect(counts.map(count => count.date)).toEqual(['Jan 6, 2025', 'Jan 7, 2025', 'Jan 8, 2025']);
+  });
+
+  it('applies per-word toggles on top of the defaults', () => {
+    const { counts } = processExcelData(AMAZON_EXPORT, { ...defaults, CX12: false, '5': true });
+    expect(counts.map(count => count.count)).toEqual([2, 2, 2]);
+  });
+
+  it('counts words missing from the state', () => {
+    const { counts } = processExcelData(AMAZON_EXPORT, {});
+    expect(counts.map(count => count.count)).toEqual([4, 4, 4]);
+  });
+});
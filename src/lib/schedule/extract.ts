@@ -0,0 +1,85 @@
+import { formatDate } from './format';
+import { isWordAllowed } from './filters';
+import { BLANK_WORD, DEFAULT_LAYOUT, type ScheduleLayout } from './layout';
+import type {
+  CellValue,
+  DailyCount,
+  DateColumn,
+  FileInfo,
+  ScheduleCell,
+  ScheduleMatrix,
+  WordFilterState,
+} from './types';
+
+// Normalizes a cell to the word used as its filter key. Blanks get a specific key.
+export const cellWord = (cellValue: CellValue): string => {
+  const word = String(cellValue || '').trim();
+  return word === '' ? BLANK_WORD : word;
+};
+
+export const extractFileInfo = (jsonData: ScheduleMatrix, layout: ScheduleLayout = DEFAULT_LAYOUT): FileInfo => {
+  const companyName = String(jsonData[layout.infoRow]?.[layout.companyColumn] || 'Unknown Company');
+  const stationName = String(jsonData[layout.infoRow]?.[layout.stationColumn] || 'Unknown Station');
+  return { companyName, stationName };
+};
+
+// Every column of the date row from the first date column on that has a header.
+export const getDateColumns = (jsonData: ScheduleMatrix, layout: ScheduleLayout = DEFAULT_LAYOUT): DateColumn[] => {
+  if (jsonData.length < layout.firstAssignmentRow) return [];
+
+  const dateRow = jsonData[layout.dateRow] || [];
+  const columns: DateColumn[] = [];
+
+  for (let colIndex = layout.firstDateColumn; colIndex < dateRow.length; colIndex++) {
+    const dateValue = dateRow[colIndex];
+    if (dateValue) {
+      columns.push({ column: colIndex, rawDate: dateValue, date: formatDate(dateValue) });
+    }
+  }
+
+  return columns;
+};
+
+// The assignment cells of one column, top to bottom.
+export const getColumnCells = (
+  jsonData: ScheduleMatrix,
+  colIndex: number,
+  layout: ScheduleLayout = DEFAULT_LAYOUT
+): ScheduleCell[] => {
+  const cells: ScheduleCell[] = [];
+  for (let rowIndex = layout.firstAssignmentRow; rowIndex < jsonData.length; rowIndex++) {
+    const value = jsonData[rowIndex]?.[colIndex];
+    cells.push({ row: rowIndex, column: colIndex, value, word: cellWord(value) });
+  }
+  return cells;
+};
+
+// Extract ALL unique words (no filtering applied here)
+export const extractUniqueWords = (jsonData: ScheduleMatrix, layout: ScheduleLayout = DEFAULT_LAYOUT): string[] => {
+  const uniqueWords = new Set<string>();
+
+  if (jsonData.length < layout.firstAssignmentRow) return [];
+
+  const headerLength = jsonData[layout.dateRow]?.length ?? 0;
+  for (let colIndex = layout.firstDateColumn; colIndex < headerLength; colIndex++) {
+    getColumnCells(jsonData, colIndex, layout).forEach(cell => uniqueWords.add(cell.word));
+  }
+
+  return Array.from(uniqueWords).sort();
+};
+
+// Process data based strictly on the Word Filter State
+export const processExcelData = (
+  jsonData: ScheduleMatrix,
+  wordFilterState: WordFilterState,
+  layout: ScheduleLayout = DEFAULT_LAYOUT
+): { counts: DailyCount[] } => {
+  const counts = getDateColumns(jsonData, layout).map(({ column, rawDate, date }) => {
+    const count = getColumnCells(jsonData, column, layout)
+      .filter(cell => isWordAllowed(wordFilterState, cell.word))
+      .length;
+    return { date, rawDate, column, count };
+  });
+
+  return { counts };
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { isDefaultExcluded, isWordAllowed, sameFilterSettings, withDefaultFilterState, withWordOverrides } from './filters';
+import { BLANK_WORD } from './layout';
+import { DEFAULT_FILTER_RULES } from './rules';
+
+describe('isDefaultExcluded', () => {
+  it('excludes blanks, bare numbers and DSP initiated work', () => {
+    expect(isDefaultExcluded(BLANK_WORD)).toBe(true);
+    expect(isDefaultExcluded('5')).toBe(true);
+    expect(isDefaultExcluded('10.5')).toBe(true);
+    expect(isDefaultExcluded('DSP Initiated Work - Training')).toBe(true);
+    expect(isDefaultExcluded('dsp initiated work')).toBe(true);
+  });
+
+  it('keeps route assignments', () => {
+    expect(isDefaultExcluded('CX12')).toBe(false);
+    expect(isDefaultExcluded('Route 12-3')).toBe(false);
+    expect(isDefaultExcluded('Work DSP Initiated')).toBe(false);
+  });
+});
+
+describe('withDefaultFilterState', () => {
+  it('adds new words from the rules and keeps existing toggles', () => {
+    expect(withDefaultFilterState({ CX12: false }, ['CX12', 'CX14', '5', BLANK_WORD])).toEqual({
+      CX12: false,
+      CX14: true,
+      '5': false,
+      [BLANK_WORD]: false,
+    });
+  });
+});
+
+describe('withWordOverrides', () => {
+  it('drops overrides that agree with the rules', () => {
+    const state = withWordOverrides({ CX12: false }, DEFAULT_FILTER_RULES, ['CX12', '5'], true);
+    expect(state).toEqual({ '5': true });
+  });
+});
+
+describe('isWordAllowed', () => {
+  it('counts words the state does not mention', () => {
+    expect(isWordAllowed({}, 'CX12')).toBe(true);
+    expect(isWordAllowed({ CX12: false }, 'CX12')).toBe(false);
+  });
+});
+
+describe('sameFilterSettings', () => {
+  const settings = { rules: DEFAULT_FILTER_RULES, wordFilterState: { CX12: false, '5': true } };
+
+  it('ignores rule ids and the order of word overrides', () => {
+    const copy = {
+      rules: DEFAULT_FILTER_RULES.map(rule => ({ ...rule, id: `copy-${rule.id}` })),
+      wordFilterState: { '5': true, CX12: false },
+    };
+    expect(sameFilterSettings(settings, copy)).toBe(true);
+  });
+
+  it('notices reordered rules and changed overrides', () => {
+    expect(sameFilterSettings(settings, { ...settings, rules: [...DEFAULT_FILTER_RULES].reverse() })).toBe(false);
+    expect(sameFilterSettings(settings, { ...settings, wordFilterState: { CX12: false } })).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { DEFAULT_FILTER_RULES, compileFilterRules, evaluateFilterRules, type FilterRule } from './rules';
+import type { FileFilterOverride, FileInfo, FilterPreset, WordFilterState } from './types';
+
+// Helper to determine if a word is "Bad" data (DSP, Numeric, Blank) under the default rules
+export const isDefaultExcluded = (word: string): boolean => evaluateFilterRules(DEFAULT_FILTER_RULES, word) === false;
+
+// Adds any words not yet in the state using the rules: excluded (false) when the first
+// matching rule excludes the word, included (true) when it includes it or nothing matches
+export const withDefaultFilterState = (
+  state: WordFilterState,
+  words: string[],
+  rules: FilterRule[] = DEFAULT_FILTER_RULES
+): WordFilterState => {
+  const evaluate = compileFilterRules(rules);
+  const newState = { ...state };
+  words.forEach(word => {
+    if (newState[word] === undefined) {
+      newState[word] = evaluate(word) !== false;
+    }
+  });
+  return newState;
+};
+
+// Sets the words to included or excluded. An override that agrees with the rules is
+// dropped instead, so later rule edits still apply to the word.
+export const withWordOverrides = (
+  state: WordFilterState,
+  rules: FilterRule[],
+  words: string[],
+  included: boolean
+): WordFilterState => {
+  const evaluate = compileFilterRules(rules);
+  const newState = { ...state };
+  words.forEach(word => {
+    if ((evaluate(word) !== false) === included) delete newState[word];
+    else newState[word] = included;
+  });
+  return newState;
+};
+
+// A file's filter state from its override or the preset it references. Without either,
+// or when the preset has since been deleted, the file follows the global state.
+export const resolveFileFilterState = (
+  override: FileFilterOverride | undefined,
+  presets: FilterPreset[],
+  words: string[],
+  globalState: WordFilterState
+): WordFilterState => {
+  if (override?.kind === 'custom') return withDefaultFilterState(override.wordFilterState, words, override.rules);
+  const preset = override && presets.find(p => p.id === override.presetId);
+  return preset ? withDefaultFilterState(preset.wordFilterState, words, preset.rules) : globalState;
+};
+
+// Same rules in the same order and the same per-word overrides.
+export const sameFilterSettings = (
+  a: { rules: FilterRule[]; wordFilterState: WordFilterState },
+  b: { rules: FilterRule[]; wordFilterState: WordFilterState }
+): boolean => {
+  const words = (state: WordFilterState) => JSON.stringify(Object.entries(state).sort(([x], [y]) => x.localeCompare(y)));
+  const rules = (list: FilterRule[]) => JSON.stringify(list.map(({ kind, pattern, action }) => [kind, pattern, action]));
+  return rules(a.rules) === rules(b.rules) && words(a.wordFilterState) === words(b.wordFilterState);
+};
+
+// Logic: If word is in filter state, use that value.
+// If not in filter state (shouldn't happen often), default to true (include).
+export const isWordAllowed = (wordFilterState: WordFilterState, word: string): boolean =>
+  wordFilterState[word] !== false;
+
+// Built-in filter sets for callers without a saved filter state:
+// "default" applies the default exclusions, "all" counts every cell.
+export const BUILT_IN_FILTER_SETS = ['default', 'all'] as const;
+export type BuiltInFilterSet = (typeof BUILT_IN_FILTER_SETS)[number];
+
+export const isBuiltInFilterSet = (name: string): name is BuiltInFilterSet =>
+  (BUILT_IN_FILTER_SETS as readonly string[]).includes(name);
+
+export const builtInFilterState = (name: BuiltInFilterSet, words: string[]): WordFilterState =>
+  name === 'all'
+    ? Object.fromEntries(words.map(word => [word, true]))
+    : withDefaultFilterState({}, words);
+
+export const presetLabel = (preset: FilterPreset): string =>
+  preset.scope ? `${preset.name} (${preset.scope.stationName})` : preset.name;
+
+// Presets for every station plus those scoped to one of the given stations.
+export const presetsForStations = (presets: FilterPreset[], stations: FileInfo[]): FilterPreset[] =>
+  presets.filter(
+    preset =>
+      preset.scope === null ||
+      stations.some(s => s.companyName === preset.scope!.companyName && s.stationName === preset.scope!.stationName)
+  );
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { formatDate, formatWordLabel } from './format';
+import { BLANK_WORD } from './layout';
+
+describe('formatDate', () => {
+  it('formats Date cells and date strings the same way', () => {
+    expect(formatDate(new Date(2025, 0, 6))).toBe('Jan 6, 2025');
+    expect(formatDate('1/6/2025')).toBe('Jan 6, 2025');
+  });
+
+  it('shows N/A for empty headers', () => {
+    expect(formatDate('')).toBe('N/A');
+    expect(formatDate(null)).toBe('N/A');
+    expect(formatDate(undefined)).toBe('N/A');
+  });
+
+  it('passes through text that is not a date', () => {
+    expect(formatDate('TBD')).toBe('TBD');
+  });
+});
+
+describe('formatWordLabel', () => {
+  it('names the blank key', () => {
+    expect(formatWordLabel(BLANK_WORD)).toBe('[Blank Cell]');
+    expect(formatWordLabel('CX12')).toBe('CX12');
+  });
+});
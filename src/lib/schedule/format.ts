@@ -0,0 +1,22 @@
+import { BLANK_WORD } from './layout';
+import type { CellValue } from './types';
+
+const DATE_FORMAT: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric' };
+
+export const formatDate = (dateValue: CellValue): string => {
+  if (!dateValue) return 'N/A';
+  if (dateValue instanceof Date && !isNaN(dateValue.getTime())) {
+    return dateValue.toLocaleDateString('en-US', DATE_FORMAT);
+  }
+  const parsed = new Date(dateValue as string | number);
+  if (!isNaN(parsed.getTime())) {
+    return parsed.toLocaleDateString('en-US', DATE_FORMAT);
+  }
+  return String(dateValue);
+};
+
+// Helper to format word for display
+export const formatWordLabel = (word: string): string => {
+  if (word === BLANK_WORD) return '[Blank Cell]';
+  return word;
+};
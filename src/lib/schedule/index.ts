@@ -0,0 +1,25 @@
+export * from './types';
+export * from './dates';
+export * from './layout';
+export * from './format';
+export * from './rules';
+export * from './filters';
+export * from './csv';
+export * from './parse';
+export * from './extract';
+export * from './sheets';
+export * from './roster';
+export * from './rollups';
+export * from './series';
+export * from './demand';
+export * from './categories';
+export * from './config-file';
+export * from './export';
+export * from './diff';
+export * from './consolidate';
+export * from './compliance';
+export * from './shifts';
+export * from './overtime';
+export * from './draft';
+export * from './edit';
+export * from './validate';
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { AMAZON_EXPORT, BANNER_EXPORT } from './__fixtures__/amazon-export';
+import { DEFAULT_LAYOUT, detectLayout, manualLayout } from './layout';
+import type { ScheduleMatrix } from './types';
+
+describe('detectLayout', () => {
+  it('recognizes the standard export', () => {
+    expect(detectLayout(AMAZON_EXPORT)).toEqual({
+      kind: 'standard',
+      label: 'Amazon standard',
+      layout: DEFAULT_LAYOUT,
+      dateCount: 3,
+    });
+  });
+
+  it('does not take route codes with dashes for a date row', () => {
+    const routesOnly = AMAZON_EXPORT.map((row, index) =>
+      index >= 4 ? ['Driver', 'X', 'Route 12-3', 'Route 4-10', 'Route 10-20', '10-20'] : row
+    );
+    expect(detectLayout(routesOnly).layout.dateRow).toBe(3);
+  });
+
+  it('picks the header over an assignment row with more date-like cells', () => {
+    // Exports with merged date cells leave a blank column after each date, and Excel turns
+    // route codes like "12-3" into dates, so a driver row can hold more date cells than the header
+    const mergedHeader: ScheduleMatrix = [
+      ['Associate schedule'],
+      ['', 'Acme Logistics', 'DXX1'],
+      [],
+      ['Driver', 'Transporter ID', '1/6/2025', '', '1/7/2025', '', '1/8/2025'],
+      ['Alice Smith', 'A1', new Date(2025, 11, 3), new Date(2025, 11, 3), new Date(2025, 11, 3), new Date(2025, 11, 3), 'CX12'],
+      ['Bob Jones', 'B2', 'CX14', '', 'CX14', '', 'CX14'],
+    ];
+    const { layout, dateCount } = detectLayout(mergedHeader);
+    expect(layout.dateRow).toBe(3);
+    expect(layout.firstAssignmentRow).toBe(4);
+    expect(dateCount).toBe(3);
+  });
+
+  it('moves the info row with the dates and skips the weekday row', () => {
+    const { kind, layout } = detectLayout(BANNER_EXPORT);
+    expect(kind).toBe('detected');
+    expect(layout).toEqual({ ...DEFAULT_LAYOUT, infoRow: 2, dateRow: 4, firstAssignmentRow: 6 });
+  });
+
+  it('labels a standard sheet pushed down by banner rows', () => {
+    const detection = detectLayout([['Confidential'], ...AMAZON_EXPORT]);
+    expect(detection.kind).toBe('shifted');
+    expect(detection.label).toBe('Amazon standard, down 1 row');
+    expect(detection.layout.infoRow).toBe(2);
+  });
+
+  it('falls back to the standard layout without any dates', () => {
+    const detection = detectLayout([['Driver', 'ID', 'Week 1'], ['Alice', 'A1', 'CX12']]);
+    expect(detection.kind).toBe('unrecognized');
+    expect(detection.layout).toBe(DEFAULT_LAYOUT);
+  });
+});
+
+describe('manualLayout', () => {
+  it('marks the layout as overridden', () => {
+    expect(manualLayout(DEFAULT_LAYOUT, 3)).toEqual({ kind: 'manual', label: 'Manual override', layout: DEFAULT_LAYOUT, dateCount: 3 });
+  });
+});
@@ -0,0 +1,123 @@
+import { isWeekdayName, parseScheduleDate } from './dates';
+import type { ScheduleMatrix } from './types';
+
+/** Filter key used for empty assignment cells. */
+export const BLANK_WORD = '__BLANK__';
+
+/** Where the parts of a schedule export sit, as 0-based row/column indexes. */
+export interface ScheduleLayout {
+  infoRow: number;
+  companyColumn: number;
+  stationColumn: number;
+  dateRow: number;
+  firstDateColumn: number;
+  firstAssignmentRow: number;
+}
+
+// The Amazon portal export:
+//
+//   row 1        company name in column 1, station name in column 2
+//   row 3        date headers, starting at column 2
+//   row 4 ...    one row per driver, assignments under each date
+export const DEFAULT_LAYOUT: ScheduleLayout = {
+  infoRow: 1,
+  companyColumn: 1,
+  stationColumn: 2,
+  dateRow: 3,
+  firstDateColumn: 2,
+  firstAssignmentRow: 4,
+};
+
+export type LayoutKind = 'standard' | 'shifted' | 'detected' | 'manual' | 'unrecognized';
+
+export interface LayoutDetection {
+  kind: LayoutKind;
+  label: string;
+  layout: ScheduleLayout;
+  /** Date-like headers found in the chosen date row. */
+  dateCount: number;
+}
+
+const SCAN_ROWS = 20;
+
+const sameLayout = (a: ScheduleLayout, b: ScheduleLayout) =>
+  (Object.keys(a) as (keyof ScheduleLayout)[]).every(key => a[key] === b[key]);
+
+// Scores each of the first rows and takes the best one as the date header.
+// A header names each date once and holds little else after the first one, so
+// the score is the distinct dates less the other filled cells from there on;
+// blank header columns cost nothing. An assignment row with a few date-like
+// cells repeats them among its routes and scores low. Ties go to the upper row.
+const findDateRow = (jsonData: ScheduleMatrix) => {
+  let best = { row: -1, firstColumn: -1, dateCount: 0, score: 0 };
+
+  for (let rowIndex = 0; rowIndex < Math.min(jsonData.length, SCAN_ROWS); rowIndex++) {
+    const row = jsonData[rowIndex] || [];
+    const dates = new Set<number>();
+    let dateCount = 0;
+    let otherCount = 0;
+    let firstColumn = -1;
+
+    for (let colIndex = 0; colIndex < row.length; colIndex++) {
+      const date = parseScheduleDate(row[colIndex]);
+      if (date) {
+        dateCount++;
+        dates.add(date.getTime());
+        if (firstColumn === -1) firstColumn = colIndex;
+      } else if (firstColumn !== -1 && String(row[colIndex] ?? '').trim() !== '') {
+        otherCount++;
+      }
+    }
+
+    const score = dates.size - otherCount;
+    if (score > best.score) best = { row: rowIndex, firstColumn, dateCount, score };
+  }
+
+  return best;
+};
+
+// Some exports repeat the weekday names in the row under the dates.
+const findFirstAssignmentRow = (jsonData: ScheduleMatrix, dateRow: number, firstDateColumn: number) => {
+  let rowIndex = dateRow + 1;
+  while (rowIndex < jsonData.length) {
+    const cells = (jsonData[rowIndex] || []).slice(firstDateColumn).filter(cell => String(cell ?? '').trim() !== '');
+    if (cells.length === 0 || !cells.every(isWeekdayName)) break;
+    rowIndex++;
+  }
+  return rowIndex;
+};
+
+export const detectLayout = (jsonData: ScheduleMatrix): LayoutDetection => {
+  const { row, firstColumn, dateCount } = findDateRow(jsonData);
+
+  if (row === -1) {
+    return { kind: 'unrecognized', label: 'Unrecognized (standard layout assumed)', layout: DEFAULT_LAYOUT, dateCount: 0 };
+  }
+
+  // Banner rows push everything down together, so the company/station row
+  // keeps its distance from the date row.
+  const shift = row - DEFAULT_LAYOUT.dateRow;
+  const layout: ScheduleLayout = {
+    ...DEFAULT_LAYOUT,
+    infoRow: Math.max(DEFAULT_LAYOUT.infoRow + shift, 0),
+    dateRow: row,
+    firstDateColumn: firstColumn,
+    firstAssignmentRow: findFirstAssignmentRow(jsonData, row, firstColumn),
+  };
+
+  if (sameLayout(layout, DEFAULT_LAYOUT)) {
+    return { kind: 'standard', label: 'Amazon standard', layout, dateCount };
+  }
+  if (firstColumn === DEFAULT_LAYOUT.firstDateColumn && layout.firstAssignmentRow === row + 1) {
+    const rows = Math.abs(shift);
+    return { kind: 'shifted', label: `Amazon standard, ${shift > 0 ? 'down' : 'up'} ${rows} row${rows === 1 ? '' : 's'}`, layout, dateCount };
+  }
+  return { kind: 'detected', label: 'Detected layout', layout, dateCount };
+};
+
+export const manualLayout = (layout: ScheduleLayout, dateCount = 0): LayoutDetection => ({
+  kind: 'manual',
+  label: 'Manual override',
+  layout,
+  dateCount,
+});
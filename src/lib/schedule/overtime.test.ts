@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { BLANK_WORD, DEFAULT_LAYOUT } from './layout';
+import { DEFAULT_OVERTIME_SETTINGS, durationResolver, projectOvertime, untimedLabels } from './overtime';
+import { scheduleHours } from './shifts';
+import type { ScheduleMatrix } from './types';
+
+const data: ScheduleMatrix = [
+  ['Associate schedule'],
+  ['', 'Acme Logistics', 'DXX1'],
+  [],
+  ['Driver', 'Transporter ID', '1/6/2025', '1/7/2025', '1/8/2025', '1/9/2025', '1/10/2025'],
+  ['Alice Smith', 'A1', '7am-5:30pm', '7am-5:30pm', '7am-5:30pm', '7am-5:30pm', '7am-5:30pm'],
+  ['Bob Jones', 'B2', 'Route', 'Route', 'Route', 'Rescue 10:20 AM', ''],
+  // Without am/pm these are 2-hour shifts, not 14-hour overnights
+  ['Cara Diaz', 'C3', '11:30-1:30', '11:30-1:30', '11:30-1:30', '11:30-1:30', '11:30-1:30'],
+];
+
+const settings = { ...DEFAULT_OVERTIME_SETTINGS, defaultDurations: { Route: 9 } };
+const hours = scheduleHours(data, { [BLANK_WORD]: false }, DEFAULT_LAYOUT, durationResolver(settings));
+
+describe('durationResolver', () => {
+  it('uses the label default, then the fallback', () => {
+    const resolve = durationResolver(settings);
+    expect(resolve('Route')).toBe(9);
+    expect(resolve('Rescue')).toBe(10);
+    expect(durationResolver({ ...settings, fallbackDuration: null })('Rescue')).toBeNull();
+  });
+});
+
+describe('projectOvertime', () => {
+  it('lists drivers over and near the threshold, worst first', () => {
+    const projection = projectOvertime(hours, settings);
+    expect(projection.risks.map(risk => [risk.name, risk.hours, risk.overtime, risk.level])).toEqual([
+      ['Alice Smith', 52.5, 12.5, 'over'],
+      ['Bob Jones', 37, 0, 'near'],
+    ]);
+    expect(projection).toMatchObject({ overtimeHours: 12.5, driversOver: 1, driversNear: 1 });
+  });
+
+  it('leaves drivers out below the warning margin', () => {
+    const projection = projectOvertime(hours, { ...settings, warningMargin: 2 });
+    expect(projection.risks.map(risk => risk.name)).toEqual(['Alice Smith']);
+  });
+});
+
+describe('untimedLabels', () => {
+  it('lists the labels of counted cells without an end time', () => {
+    expect(untimedLabels([hours])).toEqual(['Rescue', 'Route']);
+  });
+});
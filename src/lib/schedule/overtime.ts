@@ -0,0 +1,95 @@
+import type { ScheduleHours, ShiftDurationResolver } from './shifts';
+
+export interface OvertimeSettings {
+  /** Weekly hours after which overtime starts. */
+  weeklyThreshold: number;
+  /** Drivers this many hours under the threshold are listed as at risk. */
+  warningMargin: number;
+  /** Assignment label -> hours, for cells without an end time ("Route", "Rescue 10:20 AM"). */
+  defaultDurations: Record<string, number>;
+  /** Hours for any other counted cell without an end time; null leaves it out. */
+  fallbackDuration: number | null;
+}
+
+export const DEFAULT_OVERTIME_SETTINGS: OvertimeSettings = {
+  weeklyThreshold: 40,
+  warningMargin: 4,
+  defaultDurations: {},
+  fallbackDuration: 10,
+};
+
+export type OvertimeLevel = 'over' | 'near';
+
+export interface OvertimeRisk {
+  row: number;
+  name: string;
+  driverId: string;
+  weekKey: string;
+  weekLabel: string;
+  hours: number;
+  /** Hours past the threshold; 0 for drivers who are only near it. */
+  overtime: number;
+  level: OvertimeLevel;
+}
+
+export interface OvertimeProjection {
+  risks: OvertimeRisk[];
+  overtimeHours: number;
+  driversOver: number;
+  driversNear: number;
+}
+
+export const durationResolver =
+  (settings: OvertimeSettings): ShiftDurationResolver =>
+  label =>
+    settings.defaultDurations[label] ?? settings.fallbackDuration;
+
+// One entry per driver and week at or near the threshold, worst first.
+export const projectOvertime = (hours: ScheduleHours, settings: OvertimeSettings): OvertimeProjection => {
+  const { weeklyThreshold, warningMargin } = settings;
+
+  const risks = hours.drivers
+    .flatMap(driver =>
+      driver.weeks
+        .filter(week => week.hours >= weeklyThreshold - warningMargin)
+        .map(
+          (week): OvertimeRisk => ({
+            row: driver.row,
+            name: driver.name,
+            driverId: driver.driverId,
+            weekKey: week.key,
+            weekLabel: week.label,
+            hours: week.hours,
+            overtime: Math.max(Math.round((week.hours - weeklyThreshold) * 100) / 100, 0),
+            level: week.hours > weeklyThreshold ? 'over' : 'near',
+          })
+        )
+    )
+    .sort((a, b) => b.hours - a.hours || a.weekKey.localeCompare(b.weekKey));
+
+  const driversAt = (level: OvertimeLevel) => new Set(risks.filter(risk => risk.level === level).map(risk => risk.row));
+  const over = driversAt('over');
+
+  return {
+    risks,
+    overtimeHours: Math.round(risks.reduce((sum, risk) => sum + risk.overtime, 0) * 100) / 100,
+    driversOver: over.size,
+    driversNear: [...driversAt('near')].filter(row => !over.has(row)).length,
+  };
+};
+
+// Labels of counted cells that need a default duration, i.e. have no end time of their own.
+export const untimedLabels = (hours: ScheduleHours[]): string[] =>
+  Array.from(
+    new Set(
+      hours.flatMap(schedule =>
+        schedule.drivers.flatMap(driver =>
+          driver.days
+            .filter(day => day.counted && (day.shift === null || day.shift.end === null))
+            .map(day => day.shift?.label ?? day.word)
+        )
+      )
+    )
+  )
+    .filter(Boolean)
+    .sort();
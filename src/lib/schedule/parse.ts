@@ -0,0 +1,54 @@
+import * as XLSX from 'xlsx';
+import { readCsv } from './csv';
+import type { ScheduleMatrix, ScheduleSheet } from './types';
+
+export type ScheduleFormat = 'xlsx' | 'xls' | 'ods' | 'csv';
+
+export const SCHEDULE_FORMATS: ScheduleFormat[] = ['xlsx', 'xls', 'ods', 'csv'];
+
+/** Value for the `accept` attribute of the file picker. */
+export const SCHEDULE_FILE_ACCEPT = SCHEDULE_FORMATS.map(format => `.${format}`).join(',');
+
+export const getScheduleFormat = (fileName: string): ScheduleFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  return SCHEDULE_FORMATS.find(format => format === extension) ?? null;
+};
+
+export const isScheduleFileName = (fileName: string): boolean => getScheduleFormat(fileName) !== null;
+
+// Reads every sheet of a workbook (.xlsx, .xls, .ods) into row matrices.
+// Works on anything `XLSX.read` accepts as an array, so the same code runs in
+// the browser, in API routes and in scripts.
+export const readScheduleWorkbookSheets = (data: ArrayBuffer | Uint8Array): ScheduleSheet[] => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const workbook = XLSX.read(bytes, { type: 'array', cellDates: true });
+  return workbook.SheetNames.map(name => ({
+    name,
+    rawData: XLSX.utils.sheet_to_json<ScheduleMatrix[number]>(workbook.Sheets[name], { header: 1, raw: false }),
+  }));
+};
+
+// The first sheet only.
+export const readScheduleWorkbook = (data: ArrayBuffer | Uint8Array): ScheduleMatrix =>
+  readScheduleWorkbookSheets(data)[0]?.rawData ?? [];
+
+// Normalizes any supported format into the same sheet list.
+export const readScheduleSheets = (data: ArrayBuffer | Uint8Array, format: ScheduleFormat): ScheduleSheet[] =>
+  format === 'csv' ? [{ name: 'CSV', rawData: readCsv(data) }] : readScheduleWorkbookSheets(data);
+
+export const readScheduleData = (data: ArrayBuffer | Uint8Array, format: ScheduleFormat): ScheduleMatrix =>
+  readScheduleSheets(data, format)[0]?.rawData ?? [];
+
+// Files without a recognizable name are read as workbooks.
+const formatOf = (file: Blob & { name?: string }): ScheduleFormat =>
+  (file.name && getScheduleFormat(file.name)) || 'xlsx';
+
+export const parseScheduleSheets = async (file: Blob & { name?: string }): Promise<ScheduleSheet[]> => {
+  const buffer = await file.arrayBuffer();
+  return readScheduleSheets(buffer, formatOf(file));
+};
+
+export const parseExcelFile = async (file: Blob & { name?: string }): Promise<ScheduleMatrix> => {
+  const buffer = await file.arrayBuffer();
+  return readScheduleData(buffer, formatOf(file));
+};
@@ -0,0 +1,60 @@
+import { endOfISOWeek, endOfMonth, format, getISOWeek, getISOWeekYear, startOfISOWeek, startOfMonth } from 'date-fns';
+import { isoWeekKey, parseScheduleDate } from './dates';
+import type { DailyCount } from './types';
+
+export type RollupPeriod = 'weekly' | 'monthly';
+
+export interface CountRollup {
+  key: string;
+  label: string;
+  /** Calendar bounds of the period; null for the undated group. */
+  start: Date | null;
+  end: Date | null;
+  counts: DailyCount[];
+  total: number;
+  average: number;
+  min: DailyCount;
+  max: DailyCount;
+}
+
+const UNDATED_KEY = 'undated';
+
+const periodOf = (date: Date, period: RollupPeriod) => {
+  if (period === 'weekly') {
+    const start = startOfISOWeek(date);
+    const end = endOfISOWeek(date);
+    return {
+      key: isoWeekKey(date),
+      label: `Week ${getISOWeek(date)}, ${getISOWeekYear(date)} (${format(start, 'MMM d')} – ${format(end, 'MMM d')})`,
+      start,
+      end,
+    };
+  }
+  return { key: format(date, 'yyyy-MM'), label: format(date, 'MMMM yyyy'), start: startOfMonth(date), end: endOfMonth(date) };
+};
+
+const summarize = (counts: DailyCount[]) => {
+  const total = counts.reduce((sum, item) => sum + item.count, 0);
+  const min = counts.reduce((low, item) => (item.count < low.count ? item : low));
+  const max = counts.reduce((high, item) => (item.count > high.count ? item : high));
+  return { total, average: total / counts.length, min, max };
+};
+
+// Groups the date-wise counts by ISO week or calendar month of their raw
+// header date. Headers that do not parse as dates land in an "Undated" group
+// at the end instead of being dropped.
+export const rollupCounts = (counts: DailyCount[], period: RollupPeriod): CountRollup[] => {
+  const groups = new Map<string, Omit<CountRollup, 'total' | 'average' | 'min' | 'max'>>();
+
+  counts.forEach(item => {
+    const date = parseScheduleDate(item.rawDate);
+    const group = date ? periodOf(date, period) : { key: UNDATED_KEY, label: 'Undated', start: null, end: null };
+    const existing = groups.get(group.key);
+    if (existing) existing.counts.push(item);
+    else groups.set(group.key, { ...group, counts: [item] });
+  });
+
+  return Array.from(groups.values())
+    .sort((a, b) => (a.start?.getTime() ?? Infinity) - (b.start?.getTime() ?? Infinity))
+    .map(group => ({ ...group, ...summarize(group.counts) }));
+};
@@ -0,0 +1,81 @@
+import { isWordAllowed } from './filters';
+import { cellWord, getDateColumns } from './extract';
+import { BLANK_WORD, DEFAULT_LAYOUT, type ScheduleLayout } from './layout';
+import type { CellValue, DateColumn, ScheduleMatrix, WordFilterState } from './types';
+
+export interface RosterAssignment {
+  column: number;
+  date: string;
+  rawDate: CellValue;
+  word: string;
+  /** Whether the current filter state counts this cell. */
+  counted: boolean;
+}
+
+export interface RosterDriver {
+  /** 0-based sheet row the driver sits on. */
+  row: number;
+  name: string;
+  driverId: string;
+  assignments: RosterAssignment[];
+  shiftsWorked: number;
+  daysOff: number;
+  /** Word -> number of days with that assignment (blanks excluded). */
+  byAssignment: Record<string, number>;
+}
+
+// Columns 0 and 1 hold the driver's name and ID. Layouts that start the dates
+// in column 1 only have a name.
+export const getDriverIdentity = (row: CellValue[] | undefined, layout: ScheduleLayout = DEFAULT_LAYOUT) => {
+  const name = String(row?.[0] ?? '').trim();
+  const driverId = layout.firstDateColumn > 1 ? String(row?.[1] ?? '').trim() : '';
+  return { name, driverId };
+};
+
+export const buildRosterDriver = (
+  jsonData: ScheduleMatrix,
+  rowIndex: number,
+  dateColumns: DateColumn[],
+  wordFilterState: WordFilterState,
+  layout: ScheduleLayout = DEFAULT_LAYOUT
+): RosterDriver => {
+  const row = jsonData[rowIndex];
+  const byAssignment: Record<string, number> = {};
+  let shiftsWorked = 0;
+  let daysOff = 0;
+
+  const assignments = dateColumns.map(({ column, date, rawDate }) => {
+    const word = cellWord(row?.[column]);
+    const counted = isWordAllowed(wordFilterState, word);
+
+    if (counted) shiftsWorked++;
+    if (word === BLANK_WORD) daysOff++;
+    else byAssignment[word] = (byAssignment[word] ?? 0) + 1;
+
+    return { column, date, rawDate, word, counted };
+  });
+
+  return { row: rowIndex, ...getDriverIdentity(row, layout), assignments, shiftsWorked, daysOff, byAssignment };
+};
+
+// One entry per driver row. Rows with no identity and no assignments (the
+// padding at the bottom of some exports) are left out.
+export const buildRoster = (
+  jsonData: ScheduleMatrix,
+  wordFilterState: WordFilterState,
+  layout: ScheduleLayout = DEFAULT_LAYOUT
+): RosterDriver[] => {
+  const dateColumns = getDateColumns(jsonData, layout);
+  const drivers: RosterDriver[] = [];
+
+  for (let rowIndex = layout.firstAssignmentRow; rowIndex < jsonData.length; rowIndex++) {
+    const driver = buildRosterDriver(jsonData, rowIndex, dateColumns, wordFilterState, layout);
+    const isEmpty = !driver.name && !driver.driverId && driver.daysOff === dateColumns.length;
+    if (!isEmpty) drivers.push(driver);
+  }
+
+  return drivers;
+};
+
+export const driverLabel = (driver: Pick<RosterDriver, 'name' | 'driverId' | 'row'>): string =>
+  driver.name || driver.driverId || `Row ${driver.row + 1}`;
@@ -0,0 +1,99 @@
+import { BLANK_WORD } from './layout';
+
+export type FilterRuleKind = 'exact' | 'prefix' | 'suffix' | 'contains' | 'regex' | 'numeric';
+export type FilterRuleAction = 'include' | 'exclude';
+
+// One include/exclude rule. Rules are evaluated in order and the first match decides;
+// `pattern` is ignored by numeric rules, which match any word that is a number.
+export interface FilterRule {
+  id: string;
+  kind: FilterRuleKind;
+  pattern: string;
+  action: FilterRuleAction;
+}
+
+export interface FilterRulePreview {
+  rule: FilterRule;
+  // Every word the rule matches
+  matched: string[];
+  // The matched words this rule decides, i.e. no earlier rule matched them
+  applied: string[];
+  error: string | null;
+}
+
+export const FILTER_RULE_KINDS: { kind: FilterRuleKind; label: string }[] = [
+  { kind: 'exact', label: 'Is exactly' },
+  { kind: 'prefix', label: 'Starts with' },
+  { kind: 'suffix', label: 'Ends with' },
+  { kind: 'contains', label: 'Contains' },
+  { kind: 'regex', label: 'Matches regex' },
+  { kind: 'numeric', label: 'Is a number' },
+];
+
+// Blanks, bare numbers and DSP initiated work are not countable assignments.
+export const DEFAULT_FILTER_RULES: FilterRule[] = [
+  { id: 'default-blank', kind: 'exact', pattern: BLANK_WORD, action: 'exclude' },
+  { id: 'default-numeric', kind: 'numeric', pattern: '', action: 'exclude' },
+  { id: 'default-dsp', kind: 'prefix', pattern: 'dsp initiated work', action: 'exclude' },
+];
+
+export const createFilterRule = (kind: FilterRuleKind = 'prefix', action: FilterRuleAction = 'exclude'): FilterRule => ({
+  id: `rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  kind,
+  pattern: '',
+  action,
+});
+
+// Text rules compare case-insensitively; regex rules are compiled with the `i` flag.
+const ruleMatcher = (rule: FilterRule): ((word: string) => boolean) | null => {
+  const pattern = rule.pattern.toLowerCase();
+  switch (rule.kind) {
+    case 'numeric':
+      return word => word.trim() !== '' && !isNaN(Number(word));
+    case 'regex':
+      try {
+        const regex = new RegExp(rule.pattern, 'i');
+        return word => regex.test(word);
+      } catch {
+        return null;
+      }
+    default:
+      if (pattern === '') return null;
+      if (rule.kind === 'exact') return word => word.toLowerCase() === pattern;
+      if (rule.kind === 'prefix') return word => word.toLowerCase().startsWith(pattern);
+      if (rule.kind === 'suffix') return word => word.toLowerCase().endsWith(pattern);
+      return word => word.toLowerCase().includes(pattern);
+  }
+};
+
+// Why a rule can never match, or null when it is usable.
+export const filterRuleError = (rule: FilterRule): string | null => {
+  if (rule.kind === 'numeric') return null;
+  if (rule.pattern === '') return 'Enter a pattern';
+  if (rule.kind === 'regex' && !ruleMatcher(rule)) return 'Invalid regular expression';
+  return null;
+};
+
+// Compiles the rules once into a function giving the first matching rule's verdict:
+// true to include, false to exclude, undefined when no rule matches.
+export const compileFilterRules = (rules: FilterRule[]): ((word: string) => boolean | undefined) => {
+  const compiled = rules.flatMap(rule => {
+    const matches = ruleMatcher(rule);
+    return matches ? [{ matches, include: rule.action === 'include' }] : [];
+  });
+  return word => compiled.find(({ matches }) => matches(word))?.include;
+};
+
+export const evaluateFilterRules = (rules: FilterRule[], word: string): boolean | undefined =>
+  compileFilterRules(rules)(word);
+
+export const previewFilterRules = (rules: FilterRule[], words: string[]): FilterRulePreview[] => {
+  const decided = new Set<string>();
+  return rules.map(rule => {
+    const matches = ruleMatcher(rule);
+    const matched = matches ? words.filter(matches) : [];
+    const applied = matched.filter(word => !decided.has(word));
+    applied.forEach(word => decided.add(word));
+    return { rule, matched, applied, error: filterRuleError(rule) };
+  });
+};
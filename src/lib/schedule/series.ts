@@ -0,0 +1,35 @@
+import { parseScheduleDate, toDateKey } from './dates';
+import type { DailyCount, ScheduleFile } from './types';
+
+/** One point on the shared date axis. */
+export interface AlignedDate {
+  key: string;
+  label: string;
+  date: Date | null;
+  /** File id -> count on that date; missing when the file has no such column. */
+  values: Record<string, number>;
+}
+
+// Puts the counts of several files on one date axis, keyed by the parsed
+// `rawDate` so "1/5/2025" and a Date cell for the same day line up. Columns
+// whose header is not a date stay separate and sort last.
+export const alignCountsByDate = (files: Pick<ScheduleFile, 'id' | 'counts'>[]): AlignedDate[] => {
+  const axis = new Map<string, AlignedDate>();
+
+  files.forEach(file => {
+    file.counts.forEach((item: DailyCount) => {
+      const date = parseScheduleDate(item.rawDate);
+      const key = date ? toDateKey(date) : `undated:${item.date}`;
+      const point = axis.get(key) ?? { key, label: item.date, date, values: {} };
+      point.values[file.id] = (point.values[file.id] ?? 0) + item.count;
+      axis.set(key, point);
+    });
+  });
+
+  return Array.from(axis.values()).sort((a, b) => {
+    if (a.date && b.date) return a.date.getTime() - b.date.getTime();
+    if (a.date) return -1;
+    if (b.date) return 1;
+    return a.key.localeCompare(b.key);
+  });
+};
@@ -0,0 +1,74 @@
+import { extractFileInfo, getDateColumns } from './extract';
+import { detectLayout } from './layout';
+import type { ScheduleFile, ScheduleSheet, ScheduleUploadRecord, SheetPreview } from './types';
+
+export const previewScheduleSheet = (sheet: ScheduleSheet): SheetPreview => {
+  const { layout, label } = detectLayout(sheet.rawData);
+  const dateColumns = getDateColumns(sheet.rawData, layout);
+  return {
+    name: sheet.name,
+    ...extractFileInfo(sheet.rawData, layout),
+    layoutLabel: label,
+    dateCount: dateColumns.length,
+    firstDate: dateColumns[0]?.date ?? null,
+    lastDate: dateColumns[dateColumns.length - 1]?.date ?? null,
+    driverRowCount: Math.max(sheet.rawData.length - layout.firstAssignmentRow, 0),
+  };
+};
+
+// Sheets with no date header carry nothing to count.
+export const hasScheduleData = (sheet: ScheduleSheet): boolean =>
+  getDateColumns(sheet.rawData, detectLayout(sheet.rawData).layout).length > 0;
+
+// Two sheets line up when the same dates sit in the same columns.
+const dateSignature = (sheet: ScheduleSheet): string =>
+  getDateColumns(sheet.rawData, detectLayout(sheet.rawData).layout)
+    .map(({ column, rawDate }) => `${column}:${String(rawDate)}`)
+    .join('|');
+
+// Groups sheets whose date columns line up, keeping workbook order.
+export const groupSheetsByDates = (sheets: ScheduleSheet[]): ScheduleSheet[][] => {
+  const groups = new Map<string, ScheduleSheet[]>();
+  sheets.forEach(sheet => {
+    const signature = dateSignature(sheet);
+    groups.set(signature, [...(groups.get(signature) ?? []), sheet]);
+  });
+  return Array.from(groups.values());
+};
+
+// Stacks the driver rows of sheets that share the same date columns. The
+// header rows (company/station, dates) come from the first sheet.
+export const mergeScheduleSheets = (sheets: ScheduleSheet[]): ScheduleSheet => {
+  const [first, ...rest] = sheets;
+  const rawData = [
+    ...first.rawData,
+    ...rest.flatMap(sheet => sheet.rawData.slice(detectLayout(sheet.rawData).layout.firstAssignmentRow)),
+  ];
+  return { name: sheets.map(sheet => sheet.name).join(' + '), rawData };
+};
+
+export const createScheduleFile = (fileName: string, sheet: ScheduleSheet, sheetName?: string): ScheduleFile => {
+  const layoutDetection = detectLayout(sheet.rawData);
+  return {
+    id: `${fileName}${sheetName ? `#${sheetName}` : ''}-${Date.now()}`,
+    fileName,
+    sheetName,
+    ...extractFileInfo(sheet.rawData, layoutDetection.layout),
+    rawData: sheet.rawData,
+    layoutDetection,
+    counts: [],
+  };
+};
+
+// Rebuilds the page's file entry from a saved upload.
+export const scheduleFileFromUpload = (upload: ScheduleUploadRecord): ScheduleFile => ({
+  id: `${upload.id}-${Date.now()}`,
+  fileName: upload.fileName,
+  sheetName: upload.sheetName ?? undefined,
+  uploadId: upload.id,
+  companyName: upload.companyName,
+  stationName: upload.stationName,
+  rawData: upload.rawData,
+  layoutDetection: upload.layoutDetection,
+  counts: [],
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { BLANK_WORD, DEFAULT_LAYOUT } from './layout';
+import { formatShift, parseShiftTime, scheduleHours } from './shifts';
+import type { ScheduleMatrix } from './types';
+
+const hoursOf = (text: string) => parseShiftTime(text)?.hours;
+
+describe('parseShiftTime', () => {
+  it('reads ranges with and without am/pm', () => {
+    expect(hoursOf('7am-5:30pm')).toBe(10.5);
+    expect(hoursOf('9-5:30pm')).toBe(8.5);
+    expect(hoursOf('10:45 - 8:15 PM')).toBe(9.5);
+    expect(hoursOf('10:00am - 2:00')).toBe(4);
+    expect(hoursOf('7am-11:30')).toBe(4.5);
+    expect(hoursOf('9pm-5:30')).toBe(8.5);
+    expect(parseShiftTime('Route 10:45-20:15')).toEqual({ start: 645, end: 1215, hours: 9.5, label: 'Route' });
+  });
+
+  it('reads a 12-hour range without am/pm as the shorter shift', () => {
+    expect(parseShiftTime('11:30-1:30')).toMatchObject({ start: 690, end: 810, hours: 2 });
+    expect(hoursOf('10:45-8:15')).toBe(9.5);
+    expect(hoursOf('CX12 7:00-3:30')).toBe(8.5);
+  });
+
+  it('runs past midnight when the clock says so', () => {
+    expect(parseShiftTime('22:00-6:00')).toMatchObject({ start: 1320, end: 1800, hours: 8 });
+    expect(hoursOf('9pm-5:30am')).toBe(8.5);
+    expect(hoursOf('20:00-0:30')).toBe(4.5);
+  });
+
+  it('keeps a lone start time and ignores bare numbers', () => {
+    expect(parseShiftTime('Wave 10:20 AM')).toEqual({ start: 620, end: null, hours: null, label: 'Wave' });
+    expect(parseShiftTime('Route 10')).toBeNull();
+    expect(parseShiftTime('DSP 2')).toBeNull();
+  });
+});
+
+describe('formatShift', () => {
+  it('wraps overnight ends back onto the clock', () => {
+    expect(formatShift(parseShiftTime('22:00-6:00')!)).toBe('22:00–06:00');
+  });
+});
+
+describe('scheduleHours', () => {
+  const data: ScheduleMatrix = [
+    ['Associate schedule'],
+    ['', 'Acme Logistics', 'DXX1'],
+    [],
+    ['Driver', 'Transporter ID', '1/6/2025', '1/7/2025', '1/13/2025'],
+    ['Alice Smith', 'A1', '7am-5:30pm', 'Wave 10:20 AM', '11:30-1:30'],
+    ['Bob Jones', 'B2', 'PTO 8-4:30', '', 'CX12 7:00-3:30'],
+  ];
+  const state = { 'PTO 8-4:30': false, [BLANK_WORD]: false };
+
+  it('totals counted hours per driver, week and date', () => {
+    const hours = scheduleHours(data, state, DEFAULT_LAYOUT, label => (label === 'Wave' ? 10 : null));
+    const [alice, bob] = hours.drivers;
+
+    expect(alice.total).toBe(22.5);
+    expect(alice.weeks.map(week => [week.label, week.hours])).toEqual([
+      ['Week 2', 20.5],
+      ['Week 3', 2],
+    ]);
+    expect(bob.total).toBe(8.5);
+    expect(hours.dates.map(date => date.hours)).toEqual([10.5, 10, 10.5]);
+    expect(hours.total).toBe(31);
+  });
+
+  it('leaves days of unknown length out of the totals', () => {
+    const alice = scheduleHours(data, state).drivers[0];
+    expect(alice.unknownDays).toBe(1);
+    expect(alice.total).toBe(12.5);
+  });
+});
@@ -0,0 +1,182 @@
+import { getISOWeek } from 'date-fns';
+import { isoWeekKey, parseScheduleDate } from './dates';
+import { getDateColumns } from './extract';
+import { DEFAULT_LAYOUT, type ScheduleLayout } from './layout';
+import { buildRoster, type RosterAssignment } from './roster';
+import type { CellValue, ScheduleMatrix, WordFilterState } from './types';
+
+export interface ShiftTime {
+  /** Minutes after midnight. */
+  start: number;
+  /** Minutes after midnight; past 1440 when the shift runs overnight. */
+  end: number | null;
+  /** Length of the shift; null when the cell only has a start (wave) time. */
+  hours: number | null;
+  /** The cell text without its times, e.g. "Route" for "Route 10:45-20:15". */
+  label: string;
+}
+
+export interface ShiftDay extends RosterAssignment {
+  shift: ShiftTime | null;
+  /** Scheduled hours; null for a counted day whose length is unknown, 0 when not counted. */
+  hours: number | null;
+}
+
+export interface WeekHours {
+  key: string;
+  label: string;
+  hours: number;
+}
+
+export interface DriverHours {
+  row: number;
+  name: string;
+  driverId: string;
+  days: ShiftDay[];
+  weeks: WeekHours[];
+  total: number;
+  /** Counted days without a known length, left out of the totals. */
+  unknownDays: number;
+}
+
+export interface DateHours {
+  column: number;
+  date: string;
+  rawDate: CellValue;
+  hours: number;
+  unknownDays: number;
+}
+
+export interface ScheduleHours {
+  drivers: DriverHours[];
+  dates: DateHours[];
+  total: number;
+}
+
+// Length of a shift without an end time, given its label; null when unknown.
+export type ShiftDurationResolver = (label: string) => number | null;
+
+const TIME = /(?<![\d:])(\d{1,2})(?::([0-5]\d))?\s*(?:([ap])\.?m?\.?)?(?![\w:])/gi;
+const RANGE_SEPARATOR = /^\s*(?:-|–|—|to)\s*$/i;
+
+interface TimeMatch {
+  hour: number;
+  minute: number;
+  meridiem: 'a' | 'p' | null;
+  // Just a number, like the "9" of "9-5:30pm"; only a time as the start of a range
+  bare: boolean;
+  index: number;
+  end: number;
+}
+
+const timeMatches = (text: string): TimeMatch[] =>
+  Array.from(text.matchAll(TIME))
+    .map(match => ({
+      hour: Number(match[1]),
+      minute: Number(match[2] ?? 0),
+      meridiem: (match[3]?.toLowerCase() as 'a' | 'p' | undefined) ?? null,
+      bare: match[2] === undefined && match[3] === undefined,
+      index: match.index,
+      end: match.index + match[0].length,
+    }))
+    .filter(time => (time.meridiem ? time.hour >= 1 && time.hour <= 12 : time.hour <= 23));
+
+const toMinutes = ({ hour, minute }: TimeMatch, meridiem: 'a' | 'p' | null) =>
+  ((meridiem ? hour % 12 : hour) + (meridiem === 'p' ? 12 : 0)) * 60 + minute;
+
+// Reads "10:20 AM", "7am-5:30pm", "10:45 - 8:15 PM" or "Route 10:45-20:15" out of
+// a cell. A start without am/pm borrows the end's when that keeps the shift in
+// order ("1-5pm"); an end without one takes the start's, or the other half of the
+// day, whichever comes after the start ("10:00am - 2:00"). Without any am/pm, times that both fit a 12-hour clock are
+// read as one when that keeps the shift in order ("11:30-1:30" is 2 hours, not 14);
+// otherwise an end at or before the start runs past midnight. Numbers
+// with neither minutes nor am/pm, as in "Route 10" or "DSP 2", are not times.
+export const parseShiftTime = (text: string): ShiftTime | null => {
+  const times = timeMatches(text);
+  const rangeAt = times.findIndex(
+    (time, i) => times[i + 1] && !times[i + 1].bare && RANGE_SEPARATOR.test(text.slice(time.end, times[i + 1].index))
+  );
+  const first = rangeAt >= 0 ? times[rangeAt] : times.find(time => !time.bare);
+  if (!first) return null;
+
+  const second = rangeAt >= 0 ? times[rangeAt + 1] : undefined;
+  const last = second ?? first;
+  const label = `${text.slice(0, first.index)} ${text.slice(last.end)}`.replace(/\s+/g, ' ').trim();
+
+  if (!second) return { start: toMinutes(first, first.meridiem), end: null, hours: null, label };
+
+  let end = toMinutes(second, second.meridiem);
+  let start = toMinutes(first, first.meridiem);
+  if (!first.meridiem && second.meridiem && toMinutes(first, second.meridiem) < end) {
+    start = toMinutes(first, second.meridiem);
+  }
+  if (first.meridiem && !second.meridiem && second.hour >= 1 && second.hour <= 12) {
+    const sameHalf = toMinutes(second, first.meridiem);
+    end = sameHalf > start ? sameHalf : toMinutes(second, first.meridiem === 'a' ? 'p' : 'a');
+  }
+  const twelveHour = [first, second].every(time => !time.meridiem && time.hour >= 1 && time.hour <= 12);
+  if (end <= start && twelveHour && end + 12 * 60 > start) end += 12 * 60;
+  if (end <= start) end += 24 * 60;
+
+  return { start, end, hours: (end - start) / 60, label };
+};
+
+export const formatShiftMinutes = (minutes: number): string => {
+  const wrapped = minutes % (24 * 60);
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+};
+
+export const formatShift = (shift: ShiftTime): string =>
+  shift.end === null ? formatShiftMinutes(shift.start) : `${formatShiftMinutes(shift.start)}–${formatShiftMinutes(shift.end)}`;
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+
+// Hours only come from counted cells, so PTO or call-outs with a time stay out of
+// payroll. Cells without an end time use resolveDuration, when it knows their label.
+export const scheduleHours = (
+  jsonData: ScheduleMatrix,
+  wordFilterState: WordFilterState,
+  layout: ScheduleLayout = DEFAULT_LAYOUT,
+  resolveDuration: ShiftDurationResolver = () => null
+): ScheduleHours => {
+  const roster = buildRoster(jsonData, wordFilterState, layout);
+
+  const drivers = roster.map((driver): DriverHours => {
+    const days = driver.assignments.map((assignment): ShiftDay => {
+      const shift = parseShiftTime(assignment.word);
+      if (!assignment.counted) return { ...assignment, shift, hours: 0 };
+      return { ...assignment, shift, hours: shift?.hours ?? resolveDuration(shift ? shift.label : assignment.word) };
+    });
+
+    const weeks = new Map<string, WeekHours>();
+    days.forEach(day => {
+      const date = parseScheduleDate(day.rawDate);
+      if (!date || !day.hours) return;
+      const key = isoWeekKey(date);
+      const week = weeks.get(key) ?? { key, label: `Week ${getISOWeek(date)}`, hours: 0 };
+      week.hours = roundHours(week.hours + day.hours);
+      weeks.set(key, week);
+    });
+
+    return {
+      row: driver.row,
+      name: driver.name,
+      driverId: driver.driverId,
+      days,
+      weeks: Array.from(weeks.values()).sort((a, b) => a.key.localeCompare(b.key)),
+      total: roundHours(days.reduce((sum, day) => sum + (day.hours ?? 0), 0)),
+      unknownDays: days.filter(day => day.hours === null).length,
+    };
+  });
+
+  // Every driver's days follow the date columns, so one index lines them all up
+  const dates = getDateColumns(jsonData, layout).map(({ column, date, rawDate }, index): DateHours => ({
+    column,
+    date,
+    rawDate,
+    hours: roundHours(drivers.reduce((sum, driver) => sum + (driver.days[index].hours ?? 0), 0)),
+    unknownDays: drivers.filter(driver => driver.days[index].hours === null).length,
+  }));
+
+  return { drivers, dates, total: roundHours(drivers.reduce((sum, driver) => sum + driver.total, 0)) };
+};
@@ -0,0 +1,109 @@
+// Types shared by everything that reads an Amazon schedule export.
+
+import type { LayoutDetection } from './layout';
+import type { FilterRule } from './rules';
+
+/** A single raw cell as produced by `XLSX.utils.sheet_to_json(..., { header: 1 })`. */
+export type CellValue = string | number | boolean | Date | null | undefined;
+
+/** The sheet as a row-major matrix (row 0 is the first spreadsheet row). */
+export type ScheduleMatrix = CellValue[][];
+
+/** Word -> included (true) / excluded (false). Words missing from the map count as included. */
+export type WordFilterState = Record<string, boolean>;
+
+export interface FileInfo {
+  companyName: string;
+  stationName: string;
+}
+
+/** A column of the sheet that carries a date header. */
+export interface DateColumn {
+  column: number;
+  rawDate: CellValue;
+  date: string;
+}
+
+/** One assignment cell below the date header, normalized to its filter word. */
+export interface ScheduleCell {
+  row: number;
+  column: number;
+  value: CellValue;
+  word: string;
+}
+
+export interface DailyCount {
+  date: string;
+  rawDate: CellValue;
+  column: number;
+  count: number;
+}
+
+/** An uploaded file as held by the page. */
+export interface ScheduleFile extends FileInfo {
+  id: string;
+  fileName: string;
+  /** Sheet(s) the data came from, when the workbook had more than one. */
+  sheetName?: string;
+  /** Id of the saved ScheduleUpload, once persisted. */
+  uploadId?: string;
+  rawData: ScheduleMatrix;
+  /** Where the dates and assignments were found; replaced by a manual override. */
+  layoutDetection: LayoutDetection;
+  counts: DailyCount[];
+}
+
+/** One worksheet of an uploaded workbook. CSV files have a single sheet. */
+export interface ScheduleSheet {
+  name: string;
+  rawData: ScheduleMatrix;
+}
+
+/** What the sheet picker shows before a sheet is ingested. */
+export interface SheetPreview extends FileInfo {
+  name: string;
+  layoutLabel: string;
+  dateCount: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  driverRowCount: number;
+}
+
+/** A saved upload as listed for reopening. Dates are ISO strings. */
+export interface ScheduleUploadSummary extends FileInfo {
+  id: string;
+  fileName: string;
+  sheetName: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  dateCount: number;
+  driverCount: number;
+  uploadedAt: string;
+}
+
+/** A saved upload with everything needed to rebuild its ScheduleFile. */
+export interface ScheduleUploadRecord extends ScheduleUploadSummary {
+  rawData: ScheduleMatrix;
+  layoutDetection: LayoutDetection;
+}
+
+/**
+ * A saved, named filter configuration. Scope is null for presets that apply to every station.
+ * wordFilterState holds per-word overrides; words without one are decided by the rules.
+ */
+export interface FilterPreset {
+  id: string;
+  name: string;
+  scope: FileInfo | null;
+  rules: FilterRule[];
+  wordFilterState: WordFilterState;
+  updatedAt: string;
+}
+
+/**
+ * A file's own filter, used instead of the global one: either a custom configuration
+ * (rules plus per-word overrides, as in a preset) or a reference to a saved preset.
+ */
+export type FileFilterOverride =
+  | { kind: 'custom'; rules: FilterRule[]; wordFilterState: WordFilterState }
+  | { kind: 'preset'; presetId: string };
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { AMAZON_EXPORT } from './__fixtures__/amazon-export';
+import { detectLayout } from './layout';
+import { cellAddress, hasBlockingFindings, validateSchedule } from './validate';
+import type { ScheduleMatrix } from './types';
+
+const withRow = (data: ScheduleMatrix, index: number, row: ScheduleMatrix[number]) =>
+  data.map((existing, i) => (i === index ? row : existing));
+
+describe('validateSchedule', () => {
+  it('finds nothing wrong with the sample export', () => {
+    expect(validateSchedule(AMAZON_EXPORT)).toEqual([]);
+  });
+
+  it('does not flag route codes with dashes as dates', () => {
+    const data = [...AMAZON_EXPORT, ['Eve Park', 'E5', '12-3', '10-20', 'Route 1-2']];
+    expect(validateSchedule(data).filter(finding => finding.code === 'unexpected-cell')).toEqual([]);
+  });
+
+  it('flags assignment cells that hold dates', () => {
+    const data = [...AMAZON_EXPORT, ['Eve Park', 'E5', new Date(2025, 11, 3), '1/7/2025', 'CX12']];
+    expect(validateSchedule(data).map(finding => [finding.code, finding.cell])).toEqual([
+      ['unexpected-cell', 'C9'],
+      ['unexpected-cell', 'D9'],
+    ]);
+  });
+
+  it('points at missing names, bad headers, duplicates and empty columns', () => {
+    let data = withRow(AMAZON_EXPORT, 1, ['', 'Acme Logistics', '']);
+    data = withRow(data, 3, ['Driver', 'Transporter ID', '1/6/2025', 'TBD', '1/6/2025', '1/9/2025']);
+    data = [...data, ['Alice Smith', 'A1', 'CX12']];
+
+    expect(validateSchedule(data).map(finding => [finding.code, finding.cell, finding.severity])).toEqual([
+      ['missing-station', 'C2', 'warning'],
+      ['unparseable-date', 'D4', 'error'],
+      ['duplicate-date', 'E4', 'warning'],
+      ['empty-date-column', 'F4', 'warning'],
+      ['duplicate-driver', 'A9', 'warning'],
+    ]);
+  });
+
+  it('reports a sheet without dates as blocking', () => {
+    const findings = validateSchedule([['Associate schedule'], ['', 'Acme', 'DXX1']]);
+    expect(findings.map(finding => finding.code)).toEqual(['no-dates']);
+    expect(hasBlockingFindings(findings)).toBe(true);
+  });
+});
+
+describe('cellAddress', () => {
+  it('converts 0-based indexes to spreadsheet addresses', () => {
+    expect(cellAddress(0, 0)).toBe('A1');
+    expect(cellAddress(3, 27)).toBe('AB4');
+  });
+});
+
+describe('merged date headers', () => {
+  // Exports with merged date cells leave a blank column after each date, and Excel turns
+  // route codes like "12-3" into dates, so a driver row can hold more date cells than the header
+  const mergedHeader: ScheduleMatrix = [
+    ['Associate schedule'],
+    ['', 'Acme Logistics', 'DXX1'],
+    [],
+    ['Driver', 'Transporter ID', '1/6/2025', '', '1/7/2025', '', '1/8/2025'],
+    ['Alice Smith', 'A1', new Date(2025, 11, 3), new Date(2025, 11, 3), new Date(2025, 11, 3), new Date(2025, 11, 3), 'CX12'],
+    ['Bob Jones', 'B2', 'CX14', '', 'CX14', '', 'CX14'],
+  ];
+
+  it('reports the converted cells instead of trusting the counts', () => {
+    const { layout } = detectLayout(mergedHeader);
+    const findings = validateSchedule(mergedHeader, layout);
+    expect(findings.filter(finding => finding.code === 'unparseable-date')).toEqual([]);
+    expect(findings.filter(finding => finding.code === 'unexpected-cell').map(finding => finding.cell)).toEqual([
+      'C5',
+      'E5',
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import * as XLSX from 'xlsx';
+import { parseScheduleDate } from './dates';
+import { cellWord, getColumnCells, getDateColumns } from './extract';
+import { BLANK_WORD, DEFAULT_LAYOUT, type ScheduleLayout } from './layout';
+import type { ScheduleMatrix } from './types';
+
+export type FindingSeverity = 'error' | 'warning';
+
+export type FindingCode =
+  | 'no-dates'
+  | 'no-driver-rows'
+  | 'missing-company'
+  | 'missing-station'
+  | 'unparseable-date'
+  | 'duplicate-date'
+  | 'empty-date-column'
+  | 'duplicate-driver'
+  | 'unexpected-cell';
+
+export interface ValidationFinding {
+  code: FindingCode;
+  severity: FindingSeverity;
+  message: string;
+  /** Spreadsheet address ("C4") of the cell the finding is about, if any. */
+  cell?: string;
+  row?: number;
+  column?: number;
+}
+
+const MAX_CELL_LENGTH = 60;
+
+// 0-based indexes to the address the spreadsheet shows.
+export const cellAddress = (row: number, column: number): string => XLSX.utils.encode_cell({ r: row, c: column });
+
+const at = (row: number, column: number) => ({ cell: cellAddress(row, column), row, column });
+
+const checkInfo = (jsonData: ScheduleMatrix, layout: ScheduleLayout): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  const infoRow = jsonData[layout.infoRow] || [];
+
+  if (!String(infoRow[layout.companyColumn] ?? '').trim()) {
+    findings.push({
+      code: 'missing-company',
+      severity: 'warning',
+      message: "No company name; shown as 'Unknown Company'.",
+      ...at(layout.infoRow, layout.companyColumn),
+    });
+  }
+  if (!String(infoRow[layout.stationColumn] ?? '').trim()) {
+    findings.push({
+      code: 'missing-station',
+      severity: 'warning',
+      message: "No station name; shown as 'Unknown Station'.",
+      ...at(layout.infoRow, layout.stationColumn),
+    });
+  }
+
+  return findings;
+};
+
+const checkDates = (jsonData: ScheduleMatrix, layout: ScheduleLayout): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  const seen = new Map<number, string>();
+
+  getDateColumns(jsonData, layout).forEach(({ column, rawDate }) => {
+    const parsed = parseScheduleDate(rawDate);
+    if (!parsed) {
+      findings.push({
+        code: 'unparseable-date',
+        severity: 'error',
+        message: `Date header "${String(rawDate)}" is not a date.`,
+        ...at(layout.dateRow, column),
+      });
+      return;
+    }
+
+    const first = seen.get(parsed.getTime());
+    if (first) {
+      findings.push({
+        code: 'duplicate-date',
+        severity: 'warning',
+        message: `Same date as column ${first}; the day is counted twice.`,
+        ...at(layout.dateRow, column),
+      });
+    } else {
+      seen.set(parsed.getTime(), XLSX.utils.encode_col(column));
+    }
+
+    const cells = getColumnCells(jsonData, column, layout);
+    if (cells.length > 0 && cells.every(cell => cell.word === BLANK_WORD)) {
+      findings.push({
+        code: 'empty-date-column',
+        severity: 'warning',
+        message: 'Nobody is scheduled on this date.',
+        ...at(layout.dateRow, column),
+      });
+    }
+  });
+
+  return findings;
+};
+
+// Driver identity lives in the columns left of the first date.
+const checkDrivers = (jsonData: ScheduleMatrix, layout: ScheduleLayout): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  const seen = new Map<string, number>();
+
+  for (let rowIndex = layout.firstAssignmentRow; rowIndex < jsonData.length; rowIndex++) {
+    const identity = (jsonData[rowIndex] || [])
+      .slice(0, layout.firstDateColumn)
+      .map(value => String(value ?? '').trim())
+      .filter(Boolean)
+      .join(' / ');
+    if (!identity) continue;
+
+    const firstRow = seen.get(identity);
+    if (firstRow !== undefined) {
+      findings.push({
+        code: 'duplicate-driver',
+        severity: 'warning',
+        message: `"${identity}" already appears in row ${firstRow + 1}.`,
+        ...at(rowIndex, 0),
+      });
+    } else {
+      seen.set(identity, rowIndex);
+    }
+  }
+
+  return findings;
+};
+
+// Assignment cells should be short codes. Dates usually mean the layout is
+// off by a row; line breaks and long text usually mean a notes column.
+const checkCells = (jsonData: ScheduleMatrix, layout: ScheduleLayout): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+
+  getDateColumns(jsonData, layout).forEach(({ column }) => {
+    getColumnCells(jsonData, column, layout).forEach(({ row, value }) => {
+      const word = cellWord(value);
+      let problem: string | null = null;
+
+      if (value instanceof Date || parseScheduleDate(value)) problem = `"${word}" looks like a date, not an assignment.`;
+      else if (/[\r\n]/.test(word)) problem = 'Cell contains a line break.';
+      else if (word.length > MAX_CELL_LENGTH) problem = `Cell text is ${word.length} characters long.`;
+
+      if (problem) {
+        findings.push({ code: 'unexpected-cell', severity: 'warning', message: problem, ...at(row, column) });
+      }
+    });
+  });
+
+  return findings;
+};
+
+export const validateSchedule = (
+  jsonData: ScheduleMatrix,
+  layout: ScheduleLayout = DEFAULT_LAYOUT
+): ValidationFinding[] => {
+  const dateColumns = getDateColumns(jsonData, layout);
+
+  if (dateColumns.length === 0) {
+    return [{
+      code: 'no-dates',
+      severity: 'error',
+      message: `No date headers found in row ${layout.dateRow + 1}.`,
+      ...at(layout.dateRow, layout.firstDateColumn),
+    }];
+  }
+
+  const findings = [...checkInfo(jsonData, layout), ...checkDates(jsonData, layout)];
+
+  if (jsonData.length <= layout.firstAssignmentRow) {
+    findings.push({
+      code: 'no-driver-rows',
+      severity: 'error',
+      message: `No driver rows below the date header (expected from row ${layout.firstAssignmentRow + 1}).`,
+    });
+  }
+
+  return [...findings, ...checkDrivers(jsonData, layout), ...checkCells(jsonData, layout)];
+};
+
+export const hasBlockingFindings = (findings: ValidationFinding[]): boolean =>
+  findings.some(finding => finding.severity === 'error');